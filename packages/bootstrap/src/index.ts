@@ -1,7 +1,7 @@
 import { resolve as resolvePath } from "node:path";
 import { fileURLToPath } from "node:url";
-import { resolve } from "zfig";
-import type { ZfigSchema, ResolvedConfig } from "zfig";
+import { resolveAsync } from "zfig";
+import type { ZfigSchema, ResolvedConfig, ConfigLayer, SourceName, EnvNaming, ValueSource } from "zfig";
 
 export interface ListenOptions {
   port: number;
@@ -15,10 +15,18 @@ export interface ServerLike {
 
 export interface ResolveParams {
   initialValues?: Record<string, unknown>;
-  configPath?: string;
+  configPath?: string | ConfigLayer[];
+  configDir?: string;
+  profile?: string;
   env?: Record<string, string | undefined>;
-  secretsPath?: string;
+  secretsPath?: string | string[];
   override?: Record<string, unknown>;
+  sourceOrder?: SourceName[];
+  envPrefix?: string;
+  envNaming?: EnvNaming;
+  strict?: "warn" | "error";
+  unknownEnv?: boolean | string[];
+  sources?: ValueSource[];
 }
 
 export interface Service<
@@ -84,19 +92,27 @@ export function bootstrap<
 
   const resolveConfig = (overrides?: ResolveParams) => {
     const params = { ...options, ...overrides };
-    return resolve(configSchema, {
+    return resolveAsync(configSchema, {
       initialValues: params.initialValues,
       configPath: params.configPath,
+      configDir: params.configDir,
+      profile: params.profile,
       env: params.env ?? process.env,
       secretsPath: params.secretsPath,
       override: params.override,
+      sourceOrder: params.sourceOrder,
+      envPrefix: params.envPrefix,
+      envNaming: params.envNaming,
+      strict: params.strict,
+      unknownEnv: params.unknownEnv,
+      sources: params.sources,
     });
   };
 
   const service: Service<S, T> = {
     async create(createOptions?: ResolveParams): Promise<{ server: T, config: ResolvedConfig<S> }> {
       try {
-        const config = resolveConfig(createOptions);
+        const config = await resolveConfig(createOptions);
         return {
           server: await factory(config),
           config,
@@ -148,9 +164,18 @@ export function bootstrap<
 
   // Auto-run if enabled and this is the main module
   if (options.autorun?.enabled && isMainModule(options.autorun)) {
-    const config = resolveConfig();
-    const runOpts = resolveAutorunOptions(options.autorun, config);
-    service.run(runOpts);
+    const autorun = options.autorun;
+    // bootstrap() returns before the config is resolved; a failure goes to
+    // onError and is then left to the process's unhandled rejection handling
+    resolveConfig().then(
+      (config) => service.run(resolveAutorunOptions(autorun, config)),
+      (error: unknown) => {
+        if (options.onError && error instanceof Error) {
+          options.onError(error);
+        }
+        throw error;
+      }
+    );
   }
 
   return service;
@@ -5,6 +5,7 @@ import fastify from "fastify";
 import express from "express";
 import { writeFileSync, mkdtempSync, rmSync } from "node:fs";
 import { join } from "node:path";
+import { fileURLToPath } from "node:url";
 import { tmpdir } from "node:os";
 import { schema, field, ConfigError } from "zfig";
 import { bootstrap } from "../src";
@@ -311,6 +312,34 @@ describe("bootstrap()", () => {
       expect(mockServer.listenCalled).toBe(false);
     });
 
+    it("reports a failing autorun to onError and leaves the rejection unhandled", async () => {
+      const requiredSchema = schema({ apiKey: field({ type: z.string() }) });
+      const onError = vi.fn();
+      const unhandled = vi.fn();
+      // Swap out the test runner's own handler, which would fail the run
+      const runnerHandlers = process.listeners("unhandledRejection");
+      process.removeAllListeners("unhandledRejection");
+      process.on("unhandledRejection", unhandled);
+      const argv = process.argv[1];
+      process.argv[1] = fileURLToPath(import.meta.url);
+      try {
+        const mockServer = createMockServer();
+        bootstrap(requiredSchema, { env: {}, onError, autorun: { enabled: true, meta: import.meta } }, () => mockServer);
+        expect(onError).not.toHaveBeenCalled();
+
+        await new Promise((r) => setTimeout(r, 20));
+
+        expect(onError).toHaveBeenCalledOnce();
+        expect(onError.mock.calls[0][0]).toBeInstanceOf(ConfigError);
+        expect(unhandled).toHaveBeenCalledWith(onError.mock.calls[0][0], expect.anything());
+        expect(mockServer.listenCalled).toBe(false);
+      } finally {
+        process.argv[1] = argv;
+        process.removeAllListeners("unhandledRejection");
+        for (const handler of runnerHandlers) process.on("unhandledRejection", handler);
+      }
+    });
+
     it("merges static runOptions into defaults", async () => {
       const mockServer = createMockServer();
       const onReady = vi.fn();
@@ -0,0 +1,138 @@
+import type { ZodTypeAny } from "zod";
+import { getDefType } from "./introspect";
+
+export type CoerceResult = { value: unknown } | { error: string };
+
+const NUMBER = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+const INTEGER = /^[+-]?\d+$/;
+const BOOLEANS: Record<string, boolean> = { true: true, false: false, 1: true, 0: false, yes: true, no: false };
+
+/** Wrappers whose inner type decides how a string is read */
+const WRAPPERS = new Set(["optional", "nullable", "default", "prefault", "readonly", "catch", "nonoptional"]);
+
+interface Def {
+  type: string;
+  innerType?: ZodTypeAny;
+  in?: ZodTypeAny;
+  element?: ZodTypeAny;
+  shape?: Record<string, ZodTypeAny>;
+  valueType?: ZodTypeAny;
+  options?: ZodTypeAny[];
+  entries?: Record<string, string | number>;
+  values?: unknown[];
+}
+
+/**
+ * Convert a string from an env var or secret file into the shape the field's
+ * Zod type expects. Types without a string form (or plain strings) pass through.
+ */
+export function coerceString(schema: ZodTypeAny, raw: string): CoerceResult {
+  const def = schema._zod.def as Def;
+  const type = getDefType(schema);
+
+  if (type && WRAPPERS.has(type) && def.innerType) return coerceString(def.innerType, raw);
+  if (type === "pipe" && def.in) return coerceString(def.in, raw);
+
+  const text = raw.trim();
+  switch (type) {
+    case "number":
+      return NUMBER.test(text) ? { value: Number(text) } : { error: "expected a number" };
+
+    case "bigint":
+      return INTEGER.test(text) ? { value: BigInt(text) } : { error: "expected an integer" };
+
+    case "boolean": {
+      const value = BOOLEANS[text.toLowerCase()];
+      return value !== undefined ? { value } : { error: "expected true/false, 1/0 or yes/no" };
+    }
+
+    case "date": {
+      const date = INTEGER.test(text) ? new Date(Number(text)) : new Date(text);
+      return Number.isNaN(date.getTime()) ? { error: "expected an ISO date or epoch milliseconds" } : { value: date };
+    }
+
+    case "enum": {
+      const options = Object.values(def.entries ?? {});
+      return matchOption(options, text) ?? { error: `expected one of ${options.join(", ")}` };
+    }
+
+    case "literal": {
+      const options = def.values ?? [];
+      return matchOption(options, text) ?? { error: `expected ${options.map(String).join(" or ")}` };
+    }
+
+    case "array":
+      return coerceArray(def.element!, text);
+
+    case "object":
+      return coerceEntries(text, (key) => def.shape![key]);
+
+    case "record":
+      return coerceEntries(text, () => def.valueType);
+
+    case "union":
+      return coerceUnion(def.options ?? [], raw);
+
+    default:
+      return { value: raw };
+  }
+}
+
+/** Exact match first, then case-insensitive, so `DEBUG` finds the `debug` option */
+function matchOption(options: unknown[], text: string): CoerceResult | undefined {
+  const exact = options.find((option) => String(option) === text);
+  if (exact !== undefined) return { value: exact };
+  const folded = options.find((option) => String(option).toLowerCase() === text.toLowerCase());
+  return folded !== undefined ? { value: folded } : undefined;
+}
+
+/** JSON array, or comma-separated items coerced with the element type */
+function coerceArray(element: ZodTypeAny, text: string): CoerceResult {
+  if (text.startsWith("[")) return parseJson(text, "array");
+  if (text === "") return { value: [] };
+
+  const items: unknown[] = [];
+  for (const [i, item] of text.split(",").entries()) {
+    const result = coerceString(element, item.trim());
+    if ("error" in result) return { error: `item ${i}: ${result.error}` };
+    items.push(result.value);
+  }
+  return { value: items };
+}
+
+/** JSON object, or comma-separated `key=value` pairs coerced with each key's type */
+function coerceEntries(text: string, typeOf: (key: string) => ZodTypeAny | undefined): CoerceResult {
+  if (text.startsWith("{")) return parseJson(text, "object");
+  if (text === "") return { value: {} };
+
+  const entries: Record<string, unknown> = {};
+  for (const pair of text.split(",")) {
+    const separator = pair.indexOf("=");
+    if (separator === -1) return { error: `expected JSON or key=value pairs, got '${pair.trim()}'` };
+    const key = pair.slice(0, separator).trim();
+    const valueType = typeOf(key);
+    const value = pair.slice(separator + 1).trim();
+    const result = valueType ? coerceString(valueType, value) : { value };
+    if ("error" in result) return { error: `key '${key}': ${result.error}` };
+    entries[key] = result.value;
+  }
+  return { value: entries };
+}
+
+/** First option whose coercion succeeds and validates; plain string options keep the raw value */
+function coerceUnion(options: ZodTypeAny[], raw: string): CoerceResult {
+  if (options.some((option) => getDefType(option) === "string")) return { value: raw };
+  for (const option of options) {
+    const result = coerceString(option, raw);
+    if ("value" in result && option.safeParse(result.value).success) return result;
+  }
+  return { value: raw };
+}
+
+function parseJson(text: string, kind: "array" | "object"): CoerceResult {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return { error: `invalid JSON ${kind}` };
+  }
+}
@@ -0,0 +1,132 @@
+import { z, type ZodLiteral, type ZodObject, type ZodOptional, type ZodTypeAny } from "zod";
+import { buildZodShape, withSchemaOptions } from "./schema";
+import { getSchemaOptions, getUnionBranches, isZodLiteral, isZodObject } from "./introspect";
+import { ConfigError } from "./errors";
+import type { MarkedFieldConfig, SchemaOptions, ZfigSchema, ZfigUnion } from "./types";
+
+type AnySchema = ZfigSchema<Record<string, unknown>>;
+
+/** Definition a schema was created from */
+export type DefinitionOf<S> = S extends ZfigSchema<infer D> ? D : never;
+
+/** Keys of `A` replaced or added by `B` */
+export type Extended<A, B> = {
+  [K in keyof A | keyof B]: K extends keyof B ? B[K] : K extends keyof A ? A[K] : never;
+};
+
+/** Every field optional, recursing into nested sections; literals and `discriminated()` sections stay as they are */
+export type PartialDefinition<D> = {
+  [K in keyof D]: D[K] extends MarkedFieldConfig<infer Z>
+    ? MarkedFieldConfig<ZodOptional<Z>>
+    : D[K] extends ZfigSchema<infer N>
+      ? ZfigSchema<PartialDefinition<N>>
+      : D[K] extends ZodObject<infer Shape>
+        ? ZodObject<PartialShape<Shape>>
+        : D[K] extends ZodLiteral | ZfigUnion<string, Record<string, object>>
+          ? D[K]
+          : D[K] extends ZodTypeAny
+            ? ZodOptional<D[K]>
+            : D[K] extends Record<string, unknown>
+              ? PartialDefinition<D[K]>
+              : D[K];
+};
+
+type PartialShape<S> = {
+  [K in keyof S]: S[K] extends ZodObject<infer Inner>
+    ? ZodObject<PartialShape<Inner>>
+    : S[K] extends ZodLiteral
+      ? S[K]
+      : S[K] extends ZodTypeAny
+        ? ZodOptional<S[K]>
+        : never;
+};
+
+/**
+ * Add keys to a schema, or replace existing ones. The base schema's fields,
+ * their metadata and its options (naming and refinements) are kept.
+ */
+export function extend<S extends AnySchema, const D extends Record<string, unknown>>(
+  base: S,
+  definition: D
+): ZfigSchema<Extended<DefinitionOf<S>, D>> {
+  const object = z.object({ ...base.shape, ...buildZodShape(definition) });
+  return withSchemaOptions(object, getSchemaOptions(base)) as ZfigSchema<Extended<DefinitionOf<S>, D>>;
+}
+
+/**
+ * Combine two schemas; keys and naming options of `b` win over those of `a`.
+ * The refinements of both are kept.
+ */
+export function merge<A extends AnySchema, B extends AnySchema>(
+  a: A,
+  b: B
+): ZfigSchema<Extended<DefinitionOf<A>, DefinitionOf<B>>> {
+  const options = getSchemaOptions(a);
+  const overrides = getSchemaOptions(b);
+  const superRefines = [options.superRefine, overrides.superRefine].filter((fn) => fn !== undefined);
+  const object = z.object({ ...a.shape, ...b.shape });
+  return withSchemaOptions(object, {
+    envPrefix: overrides.envPrefix ?? options.envPrefix,
+    envNaming: overrides.envNaming ?? options.envNaming,
+    refine: [...(options.refine ?? []), ...(overrides.refine ?? [])],
+    superRefine:
+      superRefines.length > 0 ? (config, ctx) => superRefines.forEach((fn) => fn(config, ctx)) : undefined,
+  }) as ZfigSchema<Extended<DefinitionOf<A>, DefinitionOf<B>>>;
+}
+
+/** Keep only the listed top-level keys; refinements, which may need the others, are dropped */
+export function pick<S extends AnySchema, const K extends keyof DefinitionOf<S> & string>(
+  schema: S,
+  keys: K[]
+): ZfigSchema<Pick<DefinitionOf<S>, K>> {
+  assertKeys(schema, keys, "pick");
+  const object = z.object(Object.fromEntries(keys.map((key) => [key, schema.shape[key]])));
+  return withSchemaOptions(object, namingOptions(schema)) as ZfigSchema<Pick<DefinitionOf<S>, K>>;
+}
+
+/** Drop the listed top-level keys; refinements, which may need them, are dropped */
+export function omit<S extends AnySchema, const K extends keyof DefinitionOf<S> & string>(
+  schema: S,
+  keys: K[]
+): ZfigSchema<Omit<DefinitionOf<S>, K>> {
+  assertKeys(schema, keys, "omit");
+  const object = z.object(Object.fromEntries(Object.entries(schema.shape).filter(([key]) => !keys.includes(key as K))));
+  return withSchemaOptions(object, namingOptions(schema)) as ZfigSchema<Omit<DefinitionOf<S>, K>>;
+}
+
+/**
+ * Make every field optional, including those of nested sections, so a key no
+ * source provides resolves to `undefined`. Field metadata and naming options
+ * are kept; refinements, which expect the fields to be set, are dropped.
+ */
+export function partial<S extends AnySchema>(schema: S): ZfigSchema<PartialDefinition<DefinitionOf<S>>> {
+  return partialObject(schema) as ZfigSchema<PartialDefinition<DefinitionOf<S>>>;
+}
+
+function partialObject(object: ZodObject<Record<string, ZodTypeAny>>): ZodObject {
+  const shape = Object.fromEntries(
+    Object.entries(object.shape).map(([key, child]) => [
+      key,
+      isZodObject(child)
+        ? partialObject(child)
+        : isZodLiteral(child) || getUnionBranches(child)
+          ? child
+          : child.optional(),
+    ])
+  );
+  // Sections keep their own naming options and description
+  const { refine: _refine, superRefine: _superRefine, ...meta } = object.meta() ?? {};
+  return Object.keys(meta).length > 0 ? z.object(shape).meta(meta) : z.object(shape);
+}
+
+function namingOptions(schema: AnySchema): SchemaOptions {
+  const { envPrefix, envNaming } = getSchemaOptions(schema);
+  return { envPrefix, envNaming };
+}
+
+function assertKeys(schema: AnySchema, keys: string[], helper: string): void {
+  const unknown = keys.find((key) => !Object.hasOwn(schema.shape, key));
+  if (unknown !== undefined) {
+    throw new ConfigError(`Unknown key '${unknown}' passed to ${helper}()`, unknown, false);
+  }
+}
@@ -1,10 +1,14 @@
-import type { DiagnosticEvent } from "./types";
+import type { ConfigLayerStatus, DiagnosticEvent } from "./types";
 
 export class DiagnosticsCollector {
   private events: DiagnosticEvent[] = [];
 
-  addConfigPath(picked: string | null, candidates: string[], reason: string): void {
-    this.events.push({ type: "configPath", picked, candidates, reason });
+  addConfigPath(picked: string | null, candidates: string[], reason: string, layers?: ConfigLayerStatus[]): void {
+    const event: DiagnosticEvent = { type: "configPath", picked, candidates, reason };
+    if (layers !== undefined) {
+      (event as { layers?: ConfigLayerStatus[] }).layers = layers;
+    }
+    this.events.push(event);
   }
 
   addLoader(format: string, used: boolean, reason?: string): void {
@@ -27,7 +31,22 @@ export class DiagnosticsCollector {
     this.events.push(event);
   }
 
+  addBranch(key: string, discriminator: string, picked: string, options: string[]): void {
+    this.events.push({ type: "branch", key, discriminator, picked, options });
+  }
+
+  addWarning(key: string, message: string): void {
+    this.events.push({ type: "warning", key, message });
+  }
+
   getEvents(): DiagnosticEvent[] {
     return [...this.events];
   }
+
+  /** Copy of this collector that records further events independently */
+  fork(): DiagnosticsCollector {
+    const forked = new DiagnosticsCollector();
+    forked.events = this.getEvents();
+    return forked;
+  }
 }
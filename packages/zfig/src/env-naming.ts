@@ -0,0 +1,110 @@
+import type { ZodTypeAny } from "zod";
+import { ConfigError } from "./errors";
+import { getMeta, getSchemaOptions, getUnionBranches, isZodLiteral, isZodObject } from "./introspect";
+import type { EnvNaming } from "./types";
+
+/** Derived env var name for a key path, or `undefined` if the key has none */
+export type EnvNamer = (path: string[]) => string | undefined;
+
+/** Namer for derived env var names, or `undefined` when automatic naming is off */
+export function createEnvNamer(envPrefix?: string, envNaming?: EnvNaming): EnvNamer | undefined {
+  if (envPrefix === undefined && envNaming === undefined) return undefined;
+  const prefix = envPrefix ?? "";
+  const naming = envNaming ?? "nested";
+  if (typeof naming === "function") {
+    return (path) => prefix + naming(path);
+  }
+  const separator = naming === "flat" ? "_" : "__";
+  return (path) => prefix + path.map(toEnvSegment).join(separator);
+}
+
+/**
+ * Namer for a whole schema. Keys inside a nested `schema()` that sets its own
+ * `envPrefix` or `envNaming` are named by that section, relative to it; all
+ * other keys use `rootNamer`.
+ */
+export function createSchemaEnvNamer(schema: ZodTypeAny, rootNamer: EnvNamer | undefined): EnvNamer | undefined {
+  const sections: { path: string[]; namer: EnvNamer }[] = [];
+  const visit = (node: ZodTypeAny, path: string[]) => {
+    const branches = getUnionBranches(node);
+    if (branches) return branches.options.forEach((branch) => visit(branch, path));
+    if (!isZodObject(node)) return;
+    const { envPrefix, envNaming } = getSchemaOptions(node);
+    const namer = path.length > 0 ? createEnvNamer(envPrefix, envNaming) : undefined;
+    if (namer) sections.unshift({ path, namer });
+    for (const [key, child] of Object.entries(node.shape)) visit(child, [...path, key]);
+  };
+  visit(schema, []);
+  if (sections.length === 0) return rootNamer;
+
+  return (path) => {
+    // Deeper sections were visited later, so they come first
+    const section = sections.find((s) => s.path.every((key, i) => path[i] === key));
+    return section ? section.namer(path.slice(section.path.length)) : rootNamer?.(path);
+  };
+}
+
+/** `poolMax` → `POOL_MAX`, `max-conns` → `MAX_CONNS` */
+export function toEnvSegment(key: string): string {
+  return key
+    .replace(/([a-z0-9])([A-Z])/g, "$1_$2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1_$2")
+    .replace(/[^A-Za-z0-9]+/g, "_")
+    .toUpperCase();
+}
+
+/** `NEW_CHECKOUT` → `newCheckout`, for keys read back from env var names */
+export function fromEnvSegment(name: string): string {
+  return name.toLowerCase().replace(/_+([a-z0-9])/g, (_match, char: string) => char.toUpperCase()).replace(/_+$/, "");
+}
+
+/**
+ * Throw when a derived env var name is shared by several keys, or clashes with
+ * an explicit `env`. Explicit names shared between fields are left alone.
+ */
+export function assertNoEnvCollisions(schema: ZodTypeAny, namer: EnvNamer): void {
+  const owners = new Map<string, { path: string; derived: boolean }[]>();
+
+  const addNames = (node: ZodTypeAny, path: string[]) => {
+    const explicit = getMeta(node)?.env;
+    const names = explicit?.map((alias) => alias.name) ?? [namer(path)];
+    const pathStr = path.join(".");
+    for (const name of names) {
+      if (name === undefined) continue;
+      const keys = owners.get(name) ?? [];
+      if (keys.some((key) => key.path === pathStr)) continue;
+      owners.set(name, [...keys, { path: pathStr, derived: explicit === undefined }]);
+    }
+  };
+
+  const visit = (node: ZodTypeAny, path: string[]) => {
+    if (isZodObject(node)) {
+      for (const [key, child] of Object.entries(node.shape)) visit(child, [...path, key]);
+      return;
+    }
+    // Every branch is checked, and its discriminator is a key like any other;
+    // a key shared by several branches is named once
+    const branches = getUnionBranches(node);
+    if (branches) {
+      for (const branch of branches.options) {
+        for (const [key, child] of Object.entries(branch.shape)) {
+          if (key === branches.key) addNames(child, [...path, key]);
+          else visit(child, [...path, key]);
+        }
+      }
+      return;
+    }
+    if (!isZodLiteral(node)) addNames(node, path);
+  };
+  visit(schema, []);
+
+  const collisions = [...owners].filter(([, keys]) => keys.length > 1 && keys.some((k) => k.derived));
+  if (collisions.length === 0) return;
+
+  const lines = collisions.map(([name, keys]) => `  - ${name}: ${keys.map((k) => k.path).join(", ")}`);
+  throw new ConfigError(
+    `Derived env var names collide:\n${lines.join("\n")}`,
+    collisions[0][1][0].path,
+    false
+  );
+}
@@ -1,4 +1,4 @@
-import type { DiagnosticEvent } from "./types";
+import type { ConfigIssue, DiagnosticEvent } from "./types";
 
 export class ConfigError extends Error {
   name = "ConfigError";
@@ -7,10 +7,27 @@ export class ConfigError extends Error {
     message: string,
     public readonly path: string,
     public readonly sensitive: boolean,
-    public readonly diagnostics?: DiagnosticEvent[]
+    public readonly diagnostics?: DiagnosticEvent[],
+    public readonly issues: ConfigIssue[] = []
   ) {
     super(message);
   }
+
+  /** Build a single error out of every issue collected during resolution */
+  static fromIssues(issues: ConfigIssue[], diagnostics?: DiagnosticEvent[]): ConfigError {
+    const [first] = issues;
+    const message =
+      issues.length === 1
+        ? first.message
+        : `Config resolution failed with ${issues.length} errors:\n${issues.map((i) => `  - ${i.message}`).join("\n")}`;
+    return new ConfigError(
+      message,
+      first.path,
+      issues.some((i) => i.sensitive),
+      diagnostics,
+      issues
+    );
+  }
 }
 
 export function formatValue(value: unknown, sensitive: boolean): string {
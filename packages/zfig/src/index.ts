@@ -1,15 +1,49 @@
 // Core
-export { schema, field } from "./schema";
-export { resolveValues, getSources, getDiagnostics, type ResolveOptions } from "./values";
-export { resolve, type ResolveOptions as ResolveFileOptions } from "./resolve";
+export { schema, field, discriminated, byProfile } from "./schema";
+export {
+  extend,
+  merge,
+  pick,
+  omit,
+  partial,
+  type DefinitionOf,
+  type Extended,
+  type PartialDefinition,
+} from "./compose";
+export {
+  resolveValues,
+  getSources,
+  getDiagnostics,
+  DEFAULT_SOURCE_ORDER,
+  type ResolveOptions,
+  type FileLayer,
+} from "./values";
+export { resolve, resolveAsync, type ResolveOptions as ResolveFileOptions, type ConfigLayer } from "./resolve";
+export { watch, type WatchOptions, type ConfigChange, type ConfigWatcher } from "./watch";
 export { ConfigError } from "./errors";
 
 // Types
 export type {
+  ConfigIssue,
+  ConfigLayerStatus,
   ConfigSource,
+  SourceName,
+  BuiltinSourceName,
+  CustomFieldSources,
+  EnvAlias,
+  SecretOptions,
+  EnvNaming,
+  SchemaOptions,
+  ConfigRefinement,
+  RefinementContext,
   DiagnosticEvent,
   FieldConfig,
   SchemaDefinition,
+  FieldCondition,
+  DiscriminatorConfig,
+  ProfileDefaults,
+  DefaultFn,
+  ZfigUnion,
   ZfigSchema,
   InferSchema,
   ResolvedConfig,
@@ -27,6 +61,15 @@ export {
   type FileLoader,
 } from "./loader-registry";
 
+// Source registry
+export {
+  registerSource,
+  getRegisteredSources,
+  clearSources,
+  type ValueSource,
+  type SourceContext,
+} from "./source-registry";
+
 // Register JSON loader by default
 import { registerLoader } from "./loader-registry";
 import { loadJson } from "./loaders/json";
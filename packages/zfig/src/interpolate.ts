@@ -0,0 +1,36 @@
+/** `${NAME}`, `${NAME:-fallback}` or `${ref:key.path}`; `$${...}` is kept as a literal `${...}` */
+const PLACEHOLDER = /\$(\$?)\{([^}]*)\}/g;
+
+export type Placeholder =
+  | { kind: "env"; name: string; fallback?: string }
+  | { kind: "ref"; path: string };
+
+export function parsePlaceholder(expression: string): Placeholder {
+  if (expression.startsWith("ref:")) {
+    return { kind: "ref", path: expression.slice("ref:".length).trim() };
+  }
+  const separator = expression.indexOf(":-");
+  if (separator === -1) {
+    return { kind: "env", name: expression.trim() };
+  }
+  return { kind: "env", name: expression.slice(0, separator).trim(), fallback: expression.slice(separator + 2) };
+}
+
+/**
+ * Expand placeholders in every string of `value`, recursing into arrays and
+ * plain objects. `replace` receives each parsed placeholder and its raw text.
+ */
+export function interpolate(value: unknown, replace: (placeholder: Placeholder, raw: string) => string): unknown {
+  if (typeof value === "string") {
+    return value.replace(PLACEHOLDER, (raw: string, escaped: string, expression: string) =>
+      escaped ? raw.slice(1) : replace(parsePlaceholder(expression), raw)
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => interpolate(item, replace));
+  }
+  if (typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, replace)]));
+  }
+  return value;
+}
@@ -0,0 +1,169 @@
+import type { ZodObject, ZodTypeAny } from "zod";
+import type { Derive, EnvAlias, FieldCondition, SchemaOptions, SecretOptions, SourceName } from "./types";
+
+export interface KeyMeta {
+  /** Env var names in lookup order, the first being the primary name */
+  env?: EnvAlias[];
+  secretFile?: string;
+  secretOptions?: SecretOptions;
+  sensitive?: boolean;
+  default?: unknown;
+  /** Source label of `default`, naming the profile it was picked for */
+  defaultSource?: string;
+  sourceOrder?: SourceName[];
+  requiredWhen?: FieldCondition;
+  derive?: Derive;
+  /** Sources skipped for this key, e.g. arrays replaced by a higher-priority array of objects */
+  excludedSources?: SourceName[];
+  /** Other options, holding the keys of custom sources by source name */
+  sourceKeys?: Record<string, unknown>;
+}
+
+export function isZodObject(schema: ZodTypeAny): schema is ZodObject<Record<string, ZodTypeAny>> {
+  return getDefType(schema) === "object";
+}
+
+/** Element schema of a `z.array(z.object(...))`, whose entries are resolved key by key */
+export function getObjectArrayElement(schema: ZodTypeAny): ZodObject<Record<string, ZodTypeAny>> | undefined {
+  const array = unwrapOptional(schema);
+  if (getDefType(array) !== "array") return undefined;
+  const element = (array._zod.def as { element?: ZodTypeAny }).element;
+  return element && isZodObject(element) ? element : undefined;
+}
+
+/** Value schema of a `z.record(...)`, whose entries are resolved key by key */
+export function getRecordValueType(schema: ZodTypeAny): ZodTypeAny | undefined {
+  const record = unwrapOptional(schema);
+  if (getDefType(record) !== "record") return undefined;
+  return (record._zod.def as { valueType?: ZodTypeAny }).valueType;
+}
+
+/** Schema inside `.optional()`, `.nullable()` and `.default()` wrappers */
+export function unwrapOptional(schema: ZodTypeAny): ZodTypeAny {
+  const def = schema._zod.def as { type: string; innerType?: ZodTypeAny };
+  return OPTIONAL_WRAPPERS.has(def.type) && def.innerType ? unwrapOptional(def.innerType) : schema;
+}
+
+/** Discriminator key and object options of a `z.discriminatedUnion()`, resolved one branch at a time */
+export function getUnionBranches(
+  schema: ZodTypeAny
+): { key: string; options: ZodObject<Record<string, ZodTypeAny>>[] } | undefined {
+  if (getDefType(schema) !== "union") return undefined;
+  const { discriminator, options } = schema._zod.def as { discriminator?: string; options?: ZodTypeAny[] };
+  if (discriminator === undefined || !options?.every(isZodObject)) return undefined;
+  return { key: discriminator, options };
+}
+
+/** Values the discriminator key of a branch accepts */
+export function getBranchValues(branch: ZodObject<Record<string, ZodTypeAny>>, key: string): unknown[] {
+  const keySchema = branch.shape[key];
+  return isZodLiteral(keySchema) ? ((keySchema._zod.def as { values?: unknown[] }).values ?? []) : [];
+}
+
+/** Branch of a discriminated union picked by a resolved object, if any */
+export function getActiveBranch(schema: ZodTypeAny, value: unknown): ZodObject<Record<string, ZodTypeAny>> | undefined {
+  const branches = getUnionBranches(schema);
+  if (!branches || !value || typeof value !== "object") return undefined;
+  const picked = (value as Record<string, unknown>)[branches.key];
+  return branches.options.find((branch) => getBranchValues(branch, branches.key).includes(picked));
+}
+
+export function isZodLiteral(schema: ZodTypeAny): boolean {
+  return getDefType(schema) === "literal";
+}
+
+export function getLiteralValue(schema: ZodTypeAny): unknown {
+  return (schema._zod?.def as { values?: unknown[] } | undefined)?.values?.[0];
+}
+
+/** Wrappers that keep the metadata of a raw Zod type, e.g. `z.string().meta({ env }).optional()` */
+const OPTIONAL_WRAPPERS = new Set(["optional", "nullable", "default"]);
+
+const META_WRAPPERS = new Set(["optional", "nullable", "default", "prefault", "readonly", "catch", "nonoptional"]);
+
+export function getMeta(schema: ZodTypeAny): KeyMeta | undefined {
+  const meta = schema.meta?.();
+  const {
+    env,
+    secretFile,
+    secretOptions,
+    sensitive,
+    default: defaultValue,
+    sourceOrder,
+    requiredWhen,
+    derive,
+    description: _description,
+    ...sourceKeys
+  } = (meta && typeof meta === "object" ? meta : {}) as Record<string, unknown>;
+  if (
+    env === undefined &&
+    secretFile === undefined &&
+    secretOptions === undefined &&
+    sensitive === undefined &&
+    defaultValue === undefined &&
+    sourceOrder === undefined &&
+    requiredWhen === undefined &&
+    derive === undefined &&
+    Object.keys(sourceKeys).length === 0
+  ) {
+    const inner = getWrappedType(schema);
+    return inner ? getMeta(inner) : undefined;
+  }
+  return {
+    env: toEnvAliases(env),
+    secretFile,
+    secretOptions,
+    sensitive,
+    default: defaultValue,
+    sourceOrder,
+    requiredWhen,
+    derive,
+    sourceKeys,
+  } as KeyMeta;
+}
+
+function toEnvAliases(env: unknown): EnvAlias[] | undefined {
+  if (env === undefined) return undefined;
+  const names = Array.isArray(env) ? env : [env];
+  return names.map((alias: string | EnvAlias) => (typeof alias === "string" ? { name: alias } : alias));
+}
+
+/**
+ * What a field no source provides resolves from: `undefined` for optional and
+ * Zod-defaulted types, `null` for nullable ones. `undefined` if it's required.
+ */
+export function getUnsetInput(schema: ZodTypeAny): { input: undefined | null } | undefined {
+  const def = schema._zod.def as { type: string; innerType?: ZodTypeAny; in?: ZodTypeAny };
+  switch (def.type) {
+    case "optional":
+    case "default":
+    case "prefault":
+    case "catch":
+      return { input: undefined };
+    case "nullable":
+      return (def.innerType && getUnsetInput(def.innerType)) ?? { input: null };
+    case "readonly":
+      return def.innerType && getUnsetInput(def.innerType);
+    case "pipe":
+      return def.in && getUnsetInput(def.in);
+    default:
+      return undefined;
+  }
+}
+
+function getWrappedType(schema: ZodTypeAny): ZodTypeAny | undefined {
+  const def = schema._zod?.def as { type?: string; innerType?: ZodTypeAny; in?: ZodTypeAny } | undefined;
+  if (def?.type === "pipe") return def.in;
+  return def?.type && META_WRAPPERS.has(def.type) ? def.innerType : undefined;
+}
+
+export function getDefType(schema: ZodTypeAny): string | undefined {
+  return (schema._zod?.def as { type?: string } | undefined)?.type;
+}
+
+export function getSchemaOptions(schema: ZodTypeAny): SchemaOptions {
+  const meta = schema.meta?.();
+  if (!meta || typeof meta !== "object") return {};
+  const { envPrefix, envNaming, refine, superRefine } = meta as Record<string, unknown>;
+  return { envPrefix, envNaming, refine, superRefine } as SchemaOptions;
+}
@@ -1,4 +1,6 @@
-export type FileLoader = (path: string) => Record<string, unknown> | undefined;
+export type FileLoader = (
+  path: string
+) => Record<string, unknown> | undefined | Promise<Record<string, unknown> | undefined>;
 
 const loaders: Map<string, FileLoader> = new Map();
 
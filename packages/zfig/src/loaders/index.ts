@@ -1,3 +1,8 @@
 export { loadEnv } from "./env";
-export { loadSecretFile } from "./secretFile";
+export {
+  loadSecretFile,
+  readSecretFile,
+  readSecretFileAsync,
+  type SecretFileContents,
+} from "./secretFile";
 export { loadJson } from "./json";
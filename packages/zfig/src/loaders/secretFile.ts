@@ -1,4 +1,15 @@
-import { readFileSync } from "node:fs";
+import { readFileSync, statSync } from "node:fs";
+import { readFile, stat } from "node:fs/promises";
+
+/** Raw contents and metadata of a secret file */
+export interface SecretFileContents {
+  /** File size in bytes */
+  size: number;
+  /** Permission bits, e.g. `0o600` */
+  mode: number;
+  /** File bytes; omitted when the file is larger than the requested `maxSize` */
+  data?: Buffer;
+}
 
 export function loadSecretFile(path: string): string | undefined {
   try {
@@ -7,3 +18,24 @@ export function loadSecretFile(path: string): string | undefined {
     return undefined;
   }
 }
+
+/** Read a secret file's bytes, without reading past `maxSize` bytes worth of file */
+export function readSecretFile(path: string, maxSize?: number): SecretFileContents | undefined {
+  try {
+    const { size, mode } = statSync(path);
+    if (maxSize !== undefined && size > maxSize) return { size, mode: mode & 0o777 };
+    return { size, mode: mode & 0o777, data: readFileSync(path) };
+  } catch {
+    return undefined;
+  }
+}
+
+export async function readSecretFileAsync(path: string, maxSize?: number): Promise<SecretFileContents | undefined> {
+  try {
+    const { size, mode } = await stat(path);
+    if (maxSize !== undefined && size > maxSize) return { size, mode: mode & 0o777 };
+    return { size, mode: mode & 0o777, data: await readFile(path) };
+  } catch {
+    return undefined;
+  }
+}
@@ -1,67 +1,330 @@
-import { extname } from "node:path";
-import { getLoader, getSupportedExtensions } from "./loader-registry";
-import { resolveValues } from "./values";
+import { extname, join } from "node:path";
+import { getLoader, getSupportedExtensions, type FileLoader } from "./loader-registry";
+import { readSecretFileAsync, type SecretFileContents } from "./loaders/secretFile";
+import { resolveValues, type FileLayer, type ResolveOptions as ValueOptions } from "./values";
 import { ConfigError } from "./errors";
-import type { ZfigSchema, ResolvedConfig } from "./types";
+import type { EnvNaming, ZfigSchema, ResolvedConfig, SourceName } from "./types";
 import { DiagnosticsCollector } from "./diagnostics";
+import type { SourceContext, ValueSource } from "./source-registry";
+
+/** A config file path, or a path that may be missing without failing resolution */
+export type ConfigLayer = string | { path: string; optional?: boolean };
 
 export interface ResolveOptions {
   initialValues?: Record<string, unknown>;
-  configPath?: string;
+  /** Config file, or list of files deep-merged in order (later files win) */
+  configPath?: string | ConfigLayer[];
+  /** Directory searched for `default.*`, `<profile>.*` and `local.*` config files */
+  configDir?: string;
+  /** Active environment profile, picking `<profile>.*` files and profile defaults (default: `NODE_ENV`) */
+  profile?: string;
   env?: Record<string, string | undefined>;
-  secretsPath?: string;
+  /** Secrets directory, or directories searched in order (default: `/secrets`) */
+  secretsPath?: string | string[];
   override?: Record<string, unknown>;
+  /** Source priority, highest first; unlisted sources keep their default relative order */
+  sourceOrder?: SourceName[];
+  /** Prefix for env var names derived from key paths (overrides the schema's `envPrefix`) */
+  envPrefix?: string;
+  /** Naming strategy for derived env var names (overrides the schema's `envNaming`) */
+  envNaming?: EnvNaming;
+  /** Report keys in config files, `initialValues` or `override` that the schema doesn't define */
+  strict?: "warn" | "error";
+  /** Report unread env vars under the schema's `envPrefix`, or under the given prefixes */
+  unknownEnv?: boolean | string[];
+  /** Custom sources, added to (or replacing by name) those from `registerSource()` */
+  sources?: ValueSource[];
+  /** @internal */
+  _trackFile?: (path: string) => void;
+  /** @internal */
+  _collector?: DiagnosticsCollector;
+}
+
+interface ConfigFile {
+  path: string;
+  optional: boolean;
+  loader: FileLoader;
 }
 
+interface ConfigFilePlan {
+  files: ConfigFile[];
+  candidates: string[];
+  reason: string;
+}
+
+type LoaderResult = ReturnType<FileLoader>;
+type LoadedValues = Awaited<LoaderResult>;
+
 export function resolve<S extends ZfigSchema<Record<string, unknown>>>(
   schema: S,
   options: ResolveOptions = {}
 ): ResolvedConfig<S> {
-  const { env = process.env, secretsPath = "/secrets", initialValues, override } = options;
-  const collector = new DiagnosticsCollector();
+  const { env = process.env, _collector: collector = new DiagnosticsCollector() } = options;
+  const plan = planConfigFiles(options, env, collector);
+
+  const loaded = plan.files.map((file) => {
+    let values: LoaderResult;
+    try {
+      values = file.loader(file.path);
+    } catch (e) {
+      throw loaderFailure(e, file, plan, collector);
+    }
+    if (isPromise(values)) {
+      // Nothing awaits the load once we throw
+      values.then(undefined, () => undefined);
+      throw new ConfigError(
+        `Loader for ${extname(file.path).toLowerCase()} is asynchronous. Use resolveAsync() instead.`,
+        file.path,
+        false,
+        collector.getEvents()
+      );
+    }
+    return values;
+  });
+  const fileLayers = collectLayers(plan, loaded, collector);
+
+  return resolveValues(schema, buildValueOptions(options, env, fileLayers, collector));
+}
+
+/**
+ * Async counterpart of `resolve()`: awaits file loaders and custom sources, and
+ * reads secret files without blocking. Resolution itself runs through the same code path as the
+ * sync API, so values, sources and diagnostics are identical.
+ */
+export async function resolveAsync<S extends ZfigSchema<Record<string, unknown>>>(
+  schema: S,
+  options: ResolveOptions = {}
+): Promise<ResolvedConfig<S>> {
+  const { env = process.env, _collector: collector = new DiagnosticsCollector() } = options;
+  const plan = planConfigFiles(options, env, collector);
+  const loaded = await Promise.all(
+    plan.files.map(async (file) => {
+      try {
+        return await file.loader(file.path);
+      } catch (e) {
+        throw loaderFailure(e, file, plan, collector);
+      }
+    })
+  );
+  const fileLayers = collectLayers(plan, loaded, collector);
+
+  // Resolve against the secrets and async source values read so far; anything
+  // the pass asked for that isn't cached yet is read and the pass is repeated.
+  const secrets = new Map<string, SecretFileContents | undefined>();
+  const sourceValues = new Map<string, { value: unknown } | { error: unknown }>();
+  for (;;) {
+    const pending = new Map<string, { path: string; maxSize?: number }>();
+    const pendingSources = new Map<string, Promise<unknown>>();
+    const readSource = (source: ValueSource, key: unknown, context: SourceContext) => {
+      const cacheKey = `${source.name}:${JSON.stringify(key)}`;
+      const cached = sourceValues.get(cacheKey);
+      if (cached) {
+        if ("error" in cached) throw cached.error;
+        return cached.value;
+      }
+      let value: unknown;
+      try {
+        value = source.read(key, context);
+      } catch (error) {
+        sourceValues.set(cacheKey, { error });
+        throw error;
+      }
+      if (value instanceof Promise) {
+        pendingSources.set(cacheKey, value);
+        return undefined;
+      }
+      sourceValues.set(cacheKey, { value });
+      return value;
+    };
+    const readSecret = (path: string, maxSize?: number) => {
+      options._trackFile?.(path);
+      // Size limits are part of the key: a limited read may have skipped the contents
+      const key = `${maxSize ?? ""}:${path}`;
+      if (!secrets.has(key)) pending.set(key, { path, maxSize });
+      return secrets.get(key);
+    };
+
+    try {
+      const config = resolveValues(schema, {
+        ...buildValueOptions(options, env, fileLayers, collector.fork()),
+        _readSecret: readSecret,
+        _readSource: readSource,
+      });
+      if (pending.size === 0 && pendingSources.size === 0) return config;
+    } catch (e) {
+      if (pending.size === 0 && pendingSources.size === 0) throw e;
+    }
+
+    await Promise.all([
+      ...[...pending].map(async ([key, { path, maxSize }]) => {
+        secrets.set(key, await readSecretFileAsync(path, maxSize));
+      }),
+      ...[...pendingSources].map(async ([key, read]) => {
+        sourceValues.set(key, await read.then((value) => ({ value }), (error: unknown) => ({ error })));
+      }),
+    ]);
+  }
+}
+
+function planConfigFiles(
+  options: ResolveOptions,
+  env: Record<string, string | undefined>,
+  collector: DiagnosticsCollector
+): ConfigFilePlan {
+  const profile = options.profile ?? env.NODE_ENV;
+  const dirLayers = options.configDir ? discoverLayers(options.configDir, profile) : [];
+  const optionLayers = toLayers(options.configPath);
+  const envLayers = optionLayers.length === 0 && env.CONFIG_PATH ? [{ path: env.CONFIG_PATH, optional: false }] : [];
+  const layers = [...dirLayers, ...optionLayers, ...envLayers];
 
   // Build candidates list for diagnostics
-  const candidates: string[] = [];
-  if (options.configPath) candidates.push(`option:${options.configPath}`);
+  const candidates: string[] = [
+    ...dirLayers.map((layer) => `dir:${layer.path}`),
+    ...optionLayers.map((layer) => `option:${layer.path}`),
+  ];
   if (env.CONFIG_PATH) candidates.push(`env:${env.CONFIG_PATH}`);
 
-  const configPath = options.configPath ?? env.CONFIG_PATH;
-
-  let fileValues: Record<string, unknown> | undefined;
+  if (layers.length === 0) {
+    collector.addConfigPath(null, candidates, "no config path, skipping file loading");
+    return { files: [], candidates, reason: "" };
+  }
 
-  if (configPath) {
-    const reason = options.configPath ? "picked from configPath option" : "picked from CONFIG_PATH env";
-    collector.addConfigPath(configPath, candidates, reason);
+  const reasons: string[] = [];
+  if (dirLayers.length > 0) {
+    reasons.push(`discovered from configDir ${options.configDir} (profile: ${profile ?? "none"})`);
+  }
+  if (optionLayers.length > 1) reasons.push(`picked ${optionLayers.length} layers from configPath option`);
+  if (optionLayers.length === 1) reasons.push("picked from configPath option");
+  if (envLayers.length > 0) reasons.push("picked from CONFIG_PATH env");
+  const reason = reasons.join(", then ");
 
-    const ext = extname(configPath).toLowerCase();
+  const files: ConfigFile[] = [];
+  for (const layer of layers) {
+    options._trackFile?.(layer.path);
+    const ext = extname(layer.path).toLowerCase();
     const loader = getLoader(ext);
 
     if (!loader) {
       const supported = getSupportedExtensions().join(", ");
+      collector.addConfigPath(
+        layers[layers.length - 1].path,
+        candidates,
+        reason,
+        layers.map((l) => ({ ...l, found: false }))
+      );
       collector.addLoader(ext, false, `unsupported extension, supported: ${supported || "none"}`);
       throw new ConfigError(
         `Unsupported config file extension: ${ext}. Supported: ${supported || "none"}. Install @zfig/yaml-loader for YAML support.`,
-        configPath,
+        layer.path,
         false,
         collector.getEvents()
       );
     }
 
-    collector.addLoader(ext, true);
+    files.push({ ...layer, loader });
+  }
 
-    fileValues = loader(configPath);
+  return { files, candidates, reason };
+}
 
-    if (fileValues === undefined) {
-      throw new ConfigError(
-        `Config file not found: ${configPath}`,
-        configPath,
-        false,
-        collector.getEvents()
-      );
-    }
-  } else {
-    collector.addConfigPath(null, candidates, "no config path, skipping file loading");
+/** Record the file a loader failed on, and attach the diagnostics to its `ConfigError` */
+function loaderFailure(error: unknown, file: ConfigFile, plan: ConfigFilePlan, collector: DiagnosticsCollector): unknown {
+  collector.addConfigPath(file.path, plan.candidates, plan.reason);
+  collector.addLoader(extname(file.path).toLowerCase(), true, error instanceof Error ? error.message : String(error));
+  if (!(error instanceof ConfigError) || error.diagnostics) return error;
+  return new ConfigError(error.message, error.path, error.sensitive, collector.getEvents(), error.issues);
+}
+
+/** Record which layers were found, then fail on the first required layer that wasn't */
+function collectLayers(
+  plan: ConfigFilePlan,
+  loaded: LoadedValues[],
+  collector: DiagnosticsCollector
+): FileLayer[] {
+  if (plan.files.length === 0) return [];
+
+  const statuses = plan.files.map((file, i) => ({
+    path: file.path,
+    optional: file.optional,
+    found: loaded[i] !== undefined,
+  }));
+  const found = statuses.filter((s) => s.found);
+  collector.addConfigPath(found[found.length - 1]?.path ?? null, plan.candidates, plan.reason, statuses);
+
+  const used = statuses.filter((s) => s.found || !s.optional);
+  const extensions = new Set(used.map((s) => extname(s.path).toLowerCase()));
+  for (const ext of extensions) collector.addLoader(ext, true);
+
+  const missing = statuses.find((s) => !s.found && !s.optional);
+  if (missing) {
+    throw new ConfigError(
+      `Config file not found: ${missing.path}`,
+      missing.path,
+      false,
+      collector.getEvents()
+    );
   }
 
-  return resolveValues(schema, { initialValues, fileValues, env, secretsPath, override, configPath, _collector: collector });
+  return plan.files.flatMap((file, i) => {
+    const values = loaded[i];
+    return values === undefined ? [] : [{ path: file.path, values }];
+  });
+}
+
+/** Conventional `default`, `<profile>` and `local` files, for every registered extension */
+function discoverLayers(configDir: string, profile: string | undefined): { path: string; optional: boolean }[] {
+  const names = ["default", profile, "local"].filter(
+    (name, i, all): name is string => !!name && all.indexOf(name) === i
+  );
+  const extensions = getSupportedExtensions();
+  return names.flatMap((name) =>
+    extensions.map((ext) => ({ path: join(configDir, `${name}${ext}`), optional: true }))
+  );
+}
+
+function toLayers(configPath: ResolveOptions["configPath"]): { path: string; optional: boolean }[] {
+  if (configPath === undefined || configPath === "") return [];
+  const layers = Array.isArray(configPath) ? configPath : [configPath];
+  return layers.map((layer) =>
+    typeof layer === "string" ? { path: layer, optional: false } : { path: layer.path, optional: layer.optional ?? false }
+  );
+}
+
+function buildValueOptions(
+  options: ResolveOptions,
+  env: Record<string, string | undefined>,
+  fileLayers: FileLayer[],
+  collector: DiagnosticsCollector
+): ValueOptions {
+  const {
+    secretsPath = "/secrets",
+    initialValues,
+    override,
+    sourceOrder,
+    envPrefix,
+    envNaming,
+    profile,
+    strict,
+    unknownEnv,
+    sources,
+  } = options;
+  return {
+    initialValues,
+    fileLayers,
+    env,
+    secretsPath,
+    override,
+    sourceOrder,
+    envPrefix,
+    envNaming,
+    profile,
+    strict,
+    unknownEnv,
+    sources,
+    _collector: collector,
+  };
+}
+
+function isPromise(value: LoaderResult): value is Promise<LoadedValues> {
+  return typeof (value as Promise<unknown> | undefined)?.then === "function";
 }
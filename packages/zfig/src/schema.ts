@@ -1,35 +1,114 @@
-import { z, type ZodTypeAny } from "zod";
+import { z, type ZodObject, type ZodOptional, type ZodTypeAny } from "zod";
 import {
   FIELD_MARKER,
+  PROFILE_DEFAULTS,
+  type ProfileDefaults,
+  type DiscriminatorConfig,
+  type FieldCondition,
   type FieldConfig,
+  type InferDefinition,
   type MarkedFieldConfig,
+  type SchemaOptions,
   type ZfigSchema,
+  type ZfigUnion,
 } from "./types";
+import { isZodObject } from "./introspect";
+import { assertNoEnvCollisions, createEnvNamer, createSchemaEnvNamer } from "./env-naming";
 
 export function schema<const D extends Record<string, unknown>>(
-  definition: D
+  definition: D,
+  options?: SchemaOptions<InferDefinition<D>>
 ): ZfigSchema<D> {
-  return z.object(buildZodShape(definition)) as ZfigSchema<D>;
+  return withSchemaOptions(z.object(buildZodShape(definition)), options as SchemaOptions) as ZfigSchema<D>;
 }
 
-export function field<T extends ZodTypeAny>(config: FieldConfig<T>): MarkedFieldConfig<T> {
+/** Store schema options on a schema's root, after checking the env var names they derive */
+export function withSchemaOptions(object: ZodObject<Record<string, ZodTypeAny>>, options?: SchemaOptions): ZodObject {
+  if (!options) return object;
+
+  const { envPrefix, envNaming, refine, superRefine } = options;
+  const namer = createSchemaEnvNamer(object, createEnvNamer(envPrefix, envNaming));
+  if (namer) assertNoEnvCollisions(object, namer);
+
+  const meta: Record<string, unknown> = {};
+  if (envPrefix !== undefined) meta.envPrefix = envPrefix;
+  if (envNaming !== undefined) meta.envNaming = envNaming;
+  if (refine !== undefined && refine.length > 0) meta.refine = refine;
+  if (superRefine !== undefined) meta.superRefine = superRefine;
+  return Object.keys(meta).length > 0 ? object.meta(meta) : object;
+}
+
+export function field<T extends ZodTypeAny>(
+  config: FieldConfig<T> & { requiredWhen: FieldCondition }
+): MarkedFieldConfig<ZodOptional<T>>;
+export function field<T extends ZodTypeAny>(config: FieldConfig<T>): MarkedFieldConfig<T>;
+export function field(config: FieldConfig): MarkedFieldConfig {
   return {
     ...config,
+    // Conditionally required fields may be missing, so their type must accept `undefined`
+    ...(config.requiredWhen && { type: config.type.optional() }),
     [FIELD_MARKER]: true,
   };
 }
 
-function buildZodShape(definition: Record<string, unknown>): Record<string, ZodTypeAny> {
+/**
+ * Field default that depends on the active profile, e.g.
+ * `byProfile({ production: 20, development: 2 }, 5)`. Without a `fallback`,
+ * unlisted profiles get no default.
+ */
+export function byProfile<T>(profiles: Record<string, T>, fallback?: T): ProfileDefaults<T> {
+  return { [PROFILE_DEFAULTS]: true, profiles, ...(fallback !== undefined && { fallback }) };
+}
+
+/**
+ * Section whose fields depend on the value of its `key`: each entry of
+ * `branches` is the definition (or schema) used when the key has that value.
+ * Only the picked branch is resolved. `discriminator` configures the key
+ * itself, e.g. its `env` or `default`.
+ */
+export function discriminated<const K extends string, const B extends Record<string, object>>(
+  key: K,
+  branches: B,
+  discriminator: DiscriminatorConfig = {}
+): ZfigUnion<K, B> {
+  const options = Object.entries(branches).map(([value, branch]) => {
+    const shape = isZodType(branch) && isZodObject(branch) ? branch.shape : buildZodShape(branch as Record<string, unknown>);
+    const keyShape = buildZodShape({ [key]: field({ ...discriminator, type: z.literal(value) }) });
+    return z.object({ ...shape, ...keyShape });
+  });
+  return z.discriminatedUnion(key, options as [ZodObject, ...ZodObject[]]) as unknown as ZfigUnion<K, B>;
+}
+
+export function buildZodShape(definition: Record<string, unknown>): Record<string, ZodTypeAny> {
   const shape: Record<string, ZodTypeAny> = {};
 
   for (const [k, v] of Object.entries(definition)) {
     if (isMarkedField(v)) {
-      const { type, env, secretFile, sensitive, default: defaultValue, doc } = v;
-      const meta: Record<string, unknown> = {};
+      const {
+        type,
+        env,
+        secretFile,
+        secretOptions,
+        sensitive,
+        default: defaultValue,
+        doc,
+        sourceOrder,
+        requiredWhen,
+        derive,
+        ...sourceKeys
+      } = v;
+      // Anything else is the key of a custom source, e.g. `vault: "kv/db#password"`
+      const meta: Record<string, unknown> = Object.fromEntries(
+        Object.entries(sourceKeys).filter(([, value]) => value !== undefined)
+      );
       if (env !== undefined) meta.env = env;
       if (secretFile !== undefined) meta.secretFile = secretFile;
+      if (secretOptions !== undefined) meta.secretOptions = secretOptions;
       if (sensitive !== undefined) meta.sensitive = sensitive;
       if (defaultValue !== undefined) meta.default = defaultValue;
+      if (sourceOrder !== undefined) meta.sourceOrder = sourceOrder;
+      if (requiredWhen !== undefined) meta.requiredWhen = requiredWhen;
+      if (derive !== undefined) meta.derive = derive;
       const described = doc !== undefined ? type.describe(doc) : type;
       shape[k] = Object.keys(meta).length > 0 ? described.meta(meta) : described;
     } else if (isPrimitive(v)) {
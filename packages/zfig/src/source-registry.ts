@@ -0,0 +1,70 @@
+import { ConfigError } from "./errors";
+
+/** What a custom source knows about the field it's asked for */
+export interface SourceContext {
+  /** Dotted path of the field */
+  path: string;
+  profile: string | undefined;
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * Provider of field values, read through a field option named after it, e.g.
+ * `field({ vault: "kv/db#password" })` for a source named `vault`.
+ */
+export interface ValueSource<K = unknown> {
+  name: string;
+  /**
+   * Value for the field's key, or `undefined` when the source doesn't have
+   * one; strings are coerced like env vars. Throw to fail the field. A
+   * promise needs `resolveAsync()`.
+   */
+  read(key: K, context: SourceContext): unknown;
+  /** Place the source right before this one in the default priority order */
+  before?: string;
+  /** Place the source right after this one (default: after `secretFile`) */
+  after?: string;
+  /** Redact every value this source provides */
+  sensitive?: boolean;
+}
+
+/** Built-in sources and field options a custom source can't be named after */
+const RESERVED_NAMES = new Set([
+  "override",
+  "env",
+  "secretFile",
+  "file",
+  "initial",
+  "derived",
+  "default",
+  "unset",
+  "literal",
+  "type",
+  "secretOptions",
+  "sensitive",
+  "doc",
+  "sourceOrder",
+  "requiredWhen",
+  "derive",
+]);
+
+const sources: Map<string, ValueSource> = new Map();
+
+export function registerSource<K>(source: ValueSource<K>): void {
+  assertSourceName(source.name);
+  sources.set(source.name, source as ValueSource);
+}
+
+export function getRegisteredSources(): ValueSource[] {
+  return Array.from(sources.values());
+}
+
+export function clearSources(): void {
+  sources.clear();
+}
+
+export function assertSourceName(name: string): void {
+  if (RESERVED_NAMES.has(name)) {
+    throw new ConfigError(`Source name '${name}' is reserved`, "", false);
+  }
+}
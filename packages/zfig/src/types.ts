@@ -2,28 +2,169 @@ import type { ZodTypeAny, ZodObject, z } from "zod";
 
 export type ConfigSource = string;
 
+/** Built-in value sources, in default priority order */
+export type BuiltinSourceName = "override" | "env" | "secretFile" | "file" | "initial" | "derived" | "default";
+
+/**
+ * Field options of custom sources, keyed by source name. Augment it for each
+ * registered source to type its field key and allow its name in `sourceOrder`:
+ *
+ * ```ts
+ * declare module "zfig" {
+ *   interface CustomFieldSources {
+ *     vault?: string;
+ *   }
+ * }
+ * ```
+ */
+// eslint-disable-next-line @typescript-eslint/no-empty-object-type -- filled in by module augmentation
+export interface CustomFieldSources {}
+
+/** Built-in and custom value sources */
+export type SourceName = BuiltinSourceName | (keyof CustomFieldSources & string);
+
+/** Load status of a single config file layer */
+export interface ConfigLayerStatus {
+  path: string;
+  optional: boolean;
+  found: boolean;
+}
+
 // Diagnostic event types
 export type DiagnosticEvent =
-  | { type: "configPath"; picked: string | null; candidates: string[]; reason: string }
+  | {
+      type: "configPath";
+      picked: string | null;
+      candidates: string[];
+      reason: string;
+      layers?: ConfigLayerStatus[];
+    }
   | { type: "loader"; format: string; used: boolean; reason?: string }
   | { type: "sourceDecision"; key: string; picked: string; tried: string[] }
-  | { type: "note"; message: string; meta?: Record<string, unknown> };
+  | { type: "note"; message: string; meta?: Record<string, unknown> }
+  | { type: "warning"; key: string; message: string }
+  | { type: "branch"; key: string; discriminator: string; picked: string; options: string[] };
+
+/** A single failing path collected during resolution */
+export interface ConfigIssue {
+  path: string;
+  message: string;
+  sensitive: boolean;
+  source: ConfigSource | null;
+  tried: string[];
+  zodIssues: z.core.$ZodIssue[];
+}
+
+/** An env var name that can be marked deprecated, optionally with a migration hint */
+export interface EnvAlias {
+  name: string;
+  deprecated?: boolean | string;
+}
 
-export interface FieldConfig<T extends ZodTypeAny = ZodTypeAny> {
+/** How a field's secret file is read */
+export interface SecretOptions {
+  /**
+   * `"utf8"` (default) yields a string, `"base64"` decodes the file's text into
+   * a `Buffer`, `"buffer"` yields the raw bytes as a `Buffer`
+   */
+  encoding?: "utf8" | "base64" | "buffer";
+  /** Trim surrounding whitespace from `"utf8"` contents (default: true) */
+  trim?: boolean;
+  /** Largest file accepted, in bytes; bigger files are not read */
+  maxSize?: number;
+  /** What to do when the file is readable by group or others (default: `"ignore"`) */
+  permissions?: "ignore" | "warn" | "error";
+}
+
+/**
+ * Dotted path of a key whose value a field falls back to, or a function that
+ * computes the value from the resolved config. Keys the function reads are
+ * resolved first, and their values arrive fully typed and validated.
+ */
+export type Derive = string | DeriveFn["derive"];
+
+/**
+ * Declared as a method so the parameter is checked bivariantly: a function
+ * can annotate it with just the keys it reads, e.g. `(c: { db: { host: string } })`.
+ */
+interface DeriveFn {
+  derive(config: Record<string, unknown>): unknown;
+}
+
+/** Condition on another key, by dotted path from the root: it equals `equals`, or is one of `oneOf` */
+export type FieldCondition = { key: string; equals: unknown } | { key: string; oneOf: unknown[] };
+
+export interface FieldConfig<T extends ZodTypeAny = ZodTypeAny> extends CustomFieldSources {
   type: T;
-  env?: string;
+  /** Env var name, or names tried in order; deprecated aliases emit a warning when used */
+  env?: string | (string | EnvAlias)[];
   secretFile?: string;
+  /** Encoding, trimming, size and permission checks for `secretFile` and `<ENV>_FILE` reads */
+  secretOptions?: SecretOptions;
   sensitive?: boolean;
-  default?: unknown;
+  /** Value used when no source provides one; `byProfile()` or a function picks it per profile */
+  default?: DefaultFn | ProfileDefaults | object | string | number | boolean | bigint | null;
   doc?: string;
+  /** Source priority for this field, highest first (overrides the resolve-level `sourceOrder`) */
+  sourceOrder?: SourceName[];
+  /** Only require a value while the condition holds; otherwise a missing value resolves to `undefined` */
+  requiredWhen?: FieldCondition;
+  /** Value used when no source other than `default` provides one, computed from other keys */
+  derive?: Derive;
+}
+
+/** Options for the discriminator key of a `discriminated()` section */
+export type DiscriminatorConfig = Omit<FieldConfig, "type" | "requiredWhen" | "derive">;
+
+/**
+ * How env var names are derived from key paths: `"nested"` joins segments with
+ * `__` (`DB__POOL__MAX`), `"flat"` with `_` (`DB_POOL_MAX`), or a custom function.
+ */
+export type EnvNaming = "nested" | "flat" | ((path: string[]) => string);
+
+/** A cross-field rule; `paths` are the dotted keys it involves, the first being where the error points */
+export interface ConfigRefinement<T> {
+  check(config: T): boolean;
+  message: string;
+  paths?: string[];
+}
+
+/** Passed to `superRefine`, which reports any number of issues itself */
+export interface RefinementContext {
+  addIssue(issue: { message: string; paths?: string[] }): void;
+}
+
+/** Schema-wide options passed as the second argument of `schema()` */
+export interface SchemaOptions<T = Record<string, unknown>> {
+  /** Prefix for derived env var names, e.g. `"MYAPP_"`; enables automatic naming */
+  envPrefix?: string;
+  /** Naming strategy for derived env var names (default: `"nested"`); enables automatic naming */
+  envNaming?: EnvNaming;
+  /** Cross-field rules, checked once every field has resolved */
+  refine?: ConfigRefinement<T>[];
+  /** Cross-field checks that report their own issues, run after `refine` */
+  superRefine?(config: T, ctx: RefinementContext): void;
 }
 
 export type SchemaDefinition = {
-  [key: string]: FieldConfig | SchemaDefinition | string | number | boolean;
+  [key: string]: FieldConfig | SchemaDefinition | ZodTypeAny | string | number | boolean;
 };
 
 export const FIELD_MARKER = Symbol("zfig.field");
 
+export const PROFILE_DEFAULTS = Symbol("zfig.profileDefaults");
+
+/** Defaults per profile, created with `byProfile()` */
+export interface ProfileDefaults<T = unknown> {
+  [PROFILE_DEFAULTS]: true;
+  profiles: Record<string, T>;
+  /** Used when the active profile isn't listed */
+  fallback?: T;
+}
+
+/** Default computed when resolving, from the active profile and the env */
+export type DefaultFn = (context: { profile: string | undefined; env: Record<string, string | undefined> }) => unknown;
+
 export interface MarkedFieldConfig<T extends ZodTypeAny = ZodTypeAny>
   extends FieldConfig<T> {
   [FIELD_MARKER]: true;
@@ -32,20 +173,43 @@ export interface MarkedFieldConfig<T extends ZodTypeAny = ZodTypeAny>
 /** Infer type from single field */
 export type InferField<F> = F extends MarkedFieldConfig<infer Z>
   ? z.infer<Z>
-  : F extends string
-    ? F
-    : F extends number
-      ? F
-      : F extends boolean
-        ? F
-        : F extends Record<string, unknown>
-          ? InferDefinition<F>
-          : never;
-
-/** Infer full definition type (recursive) */
-export type InferDefinition<D extends Record<string, unknown>> = {
-  [K in keyof D]: InferField<D[K]>;
-};
+  : F extends ZfigSchema<infer D>
+    ? InferDefinition<D>
+    : F extends ZfigUnion<infer K, infer B>
+      ? InferBranches<K, B>
+      : F extends ZodTypeAny
+        ? z.infer<F>
+        : F extends string
+          ? F
+          : F extends number
+            ? F
+            : F extends boolean
+              ? F
+              : F extends Record<string, unknown>
+                ? InferDefinition<F>
+                : never;
+
+/** One object type per branch, each with its discriminator value */
+type InferBranches<K extends string, B> = {
+  [V in keyof B & string]: Simplify<{ [P in K]: V } & InferBranch<B[V]>>;
+}[keyof B & string];
+
+type InferBranch<X> =
+  X extends ZfigSchema<infer D> ? InferDefinition<D> : X extends Record<string, unknown> ? InferDefinition<X> : never;
+
+/** Keys whose inferred type admits `undefined`, i.e. optional fields */
+type OptionalKeys<D extends Record<string, unknown>> = {
+  [K in keyof D]: undefined extends InferField<D[K]> ? K : never;
+}[keyof D];
+
+/** Infer full definition type (recursive); optional fields become optional keys */
+export type InferDefinition<D extends Record<string, unknown>> = Simplify<
+  { [K in Exclude<keyof D, OptionalKeys<D>>]: InferField<D[K]> } & {
+    [K in OptionalKeys<D>]?: InferField<D[K]>;
+  }
+>;
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
 
 /** Schema with embedded definition type */
 export type ZfigSchema<D extends Record<string, unknown>> = ZodObject<
@@ -54,6 +218,11 @@ export type ZfigSchema<D extends Record<string, unknown>> = ZodObject<
   readonly _zfigDefinition: D;
 };
 
+/** Section created by `discriminated()`: the value of key `K` picks which definition of `B` applies */
+export type ZfigUnion<K extends string, B extends Record<string, object>> = ZodTypeAny & {
+  readonly _zfigBranches: { key: K; branches: B };
+};
+
 /** Extract output type from schema */
 export type InferSchema<S> = S extends ZfigSchema<infer D>
   ? InferDefinition<D>
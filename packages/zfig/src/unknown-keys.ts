@@ -0,0 +1,193 @@
+import type { ZodTypeAny } from "zod";
+import {
+  getActiveBranch,
+  getMeta,
+  getObjectArrayElement,
+  getRecordValueType,
+  getSchemaOptions,
+  getUnionBranches,
+  isZodLiteral,
+  isZodObject,
+} from "./introspect";
+import { toEnvSegment, type EnvNamer } from "./env-naming";
+
+export interface UnknownKey {
+  /** Dotted path of the key, as written in the source */
+  path: string;
+  /** Closest key the schema does define, if any is close enough */
+  suggestion?: string;
+}
+
+/**
+ * Keys of `values` the schema doesn't define. A key under an unknown section
+ * is reported by its full path, so a misspelled `datbase: { host }` comes out
+ * as `datbase.host` and can be matched against `database.host`.
+ */
+export function findUnknownKeys(schema: ZodTypeAny, values: unknown): UnknownKey[] {
+  const found: UnknownKey[] = [];
+  const visit = (node: ZodTypeAny, value: unknown, path: string[]) => {
+    if (!isPlainObject(value) && !Array.isArray(value)) return;
+
+    const element = getObjectArrayElement(node);
+    if (element) {
+      if (Array.isArray(value)) value.forEach((item, i) => visit(element, item, [...path, String(i)]));
+      return;
+    }
+    const valueType = getRecordValueType(node);
+    if (valueType) {
+      if (isPlainObject(value)) Object.entries(value).forEach(([key, item]) => visit(valueType, item, [...path, key]));
+      return;
+    }
+
+    const shape = sectionShape(node, value);
+    if (!shape || !isPlainObject(value)) return;
+    for (const [key, item] of Object.entries(value)) {
+      if (Object.hasOwn(shape, key)) {
+        visit(shape[key], item, [...path, key]);
+        continue;
+      }
+      const known = knownPaths(shape).map((relative) => [...path, ...relative].join("."));
+      for (const leaf of leafPaths(item, [...path, key])) {
+        found.push({ path: leaf, suggestion: closest(leaf, known) });
+      }
+    }
+  };
+  visit(schema, values, []);
+  return found;
+}
+
+/**
+ * Env vars starting with one of `prefixes` that no field reads. `read` holds
+ * names looked up outside of field declarations, such as `${NAME}` placeholders.
+ */
+export function findUnknownEnv(
+  schema: ZodTypeAny,
+  env: Record<string, string | undefined>,
+  envNamer: EnvNamer | undefined,
+  prefixes: string[],
+  read: Set<string>
+): { name: string; suggestion?: string }[] {
+  const { names, patterns } = declaredEnv(schema, envNamer);
+  return Object.keys(env)
+    .filter((name) => env[name] !== undefined && prefixes.some((prefix) => name.startsWith(prefix)))
+    .filter((name) => !names.has(name) && !read.has(name) && !patterns.some((pattern) => pattern.test(name)))
+    .map((name) => ({ name, suggestion: closest(name, names) }));
+}
+
+/** `envPrefix` of every nested section that sets its own */
+export function sectionEnvPrefixes(schema: ZodTypeAny): string[] {
+  const prefixes: string[] = [];
+  const visit = (node: ZodTypeAny, nested: boolean) => {
+    const branches = getUnionBranches(node);
+    if (branches) return branches.options.forEach((branch) => visit(branch, nested));
+    if (!isZodObject(node)) return;
+    const { envPrefix } = getSchemaOptions(node);
+    if (nested && envPrefix !== undefined) prefixes.push(envPrefix);
+    Object.values(node.shape).forEach((child) => visit(child, true));
+  };
+  visit(schema, false);
+  return prefixes;
+}
+
+/**
+ * Env var names fields can read, with their `_FILE` variants. Names that
+ * depend on the data, namely array elements (`BROKERS_<i>_HOST`) and record
+ * entries (`FLAG_<KEY>`), are matched by pattern.
+ */
+function declaredEnv(schema: ZodTypeAny, envNamer: EnvNamer | undefined): { names: Set<string>; patterns: RegExp[] } {
+  const names = new Set<string>();
+  const patterns: RegExp[] = [];
+  // Inside array elements, `element` is the pattern of the element's name prefix
+  const visit = (node: ZodTypeAny, path: string[], element?: { prefix: string; depth: number }) => {
+    const branches = getUnionBranches(node);
+    if (branches) return branches.options.forEach((branch) => visitSection(branch, path, element, branches.key));
+    if (isZodObject(node)) return visitSection(node, path, element);
+
+    const meta = getMeta(node);
+    const aliases = meta?.env?.map((alias) => alias.name);
+    let primary: string | undefined;
+    if (element) {
+      const suffixes = aliases ?? [path.slice(element.depth).map(toEnvSegment).join("_")];
+      for (const suffix of suffixes) patterns.push(new RegExp(`^${element.prefix}${escape(suffix)}(_FILE)?$`));
+      primary = `${element.prefix}${escape(suffixes[0])}`;
+    } else {
+      const declared = aliases ?? [envNamer?.(path)].filter((name) => name !== undefined);
+      for (const name of declared) names.add(name).add(`${name}_FILE`);
+      primary = declared[0] !== undefined ? escape(declared[0]) : undefined;
+    }
+    if (primary === undefined) return;
+
+    const elementSchema = getObjectArrayElement(node);
+    if (elementSchema) visit(elementSchema, [...path, "0"], { prefix: `${primary}_\\d+_`, depth: path.length + 1 });
+    if (getRecordValueType(node)) patterns.push(new RegExp(`^${primary.endsWith("_") ? primary : `${primary}_`}.+$`));
+  };
+  const visitSection = (
+    node: ZodTypeAny & { shape: Record<string, ZodTypeAny> },
+    path: string[],
+    element: { prefix: string; depth: number } | undefined,
+    discriminator?: string
+  ) => {
+    for (const [key, child] of Object.entries(node.shape)) {
+      // Literals are fixed; only a discriminator is read from the sources
+      if (isZodLiteral(child) && key !== discriminator) continue;
+      visit(child, [...path, key], element);
+    }
+  };
+  visit(schema, []);
+  return { names, patterns };
+}
+
+function escape(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Keys of a section; for a discriminated section, those of the branch the value picks, else of every branch */
+function sectionShape(node: ZodTypeAny, value: unknown): Record<string, ZodTypeAny> | undefined {
+  if (isZodObject(node)) return node.shape;
+  const branches = getUnionBranches(node);
+  if (!branches) return undefined;
+  const active = getActiveBranch(node, value);
+  return Object.assign({}, ...(active ? [active] : branches.options).map((branch) => branch.shape));
+}
+
+/** Every section and field path below a shape, relative to it; arrays and records are not entered */
+function knownPaths(shape: Record<string, ZodTypeAny>): string[][] {
+  return Object.entries(shape).flatMap(([key, child]) => {
+    const nested = sectionShape(child, undefined);
+    return [[key], ...(nested ? knownPaths(nested).map((relative) => [key, ...relative]) : [])];
+  });
+}
+
+function leafPaths(value: unknown, path: string[]): string[] {
+  if (!isPlainObject(value) || Object.keys(value).length === 0) return [path.join(".")];
+  return Object.entries(value).flatMap(([key, item]) => leafPaths(item, [...path, key]));
+}
+
+/** Candidate nearest to `name`, if it's close enough to be a likely typo */
+function closest(name: string, candidates: Iterable<string>): string | undefined {
+  let best: { candidate: string; distance: number } | undefined;
+  for (const candidate of candidates) {
+    const distance = editDistance(name, candidate);
+    if (distance < (best?.distance ?? Infinity)) best = { candidate, distance };
+  }
+  // Allow about one edit per three characters, so short names don't match everything
+  return best && best.distance <= Math.max(1, Math.floor(name.length / 3)) ? best.candidate : undefined;
+}
+
+/** Levenshtein distance: insertions, deletions and substitutions turning `a` into `b` */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
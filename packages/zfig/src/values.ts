@@ -1,27 +1,161 @@
-import type { ZodObject, ZodTypeAny } from "zod";
+import { z, type ZodObject, type ZodTypeAny } from "zod";
 import { isAbsolute, join } from "node:path";
 import { loadEnv } from "./loaders/env";
-import { loadSecretFile } from "./loaders/secretFile";
+import { readSecretFile, type SecretFileContents } from "./loaders/secretFile";
 import { ConfigError, formatValue } from "./errors";
-import type { ConfigSource, ZfigSchema, DiagnosticEvent, ResolvedConfig } from "./types";
+import type {
+  ConfigIssue,
+  ConfigSource,
+  DefaultFn,
+  Derive,
+  EnvAlias,
+  EnvNaming,
+  BuiltinSourceName,
+  SourceName,
+  ZfigSchema,
+  DiagnosticEvent,
+  ProfileDefaults,
+  ResolvedConfig,
+} from "./types";
+import { PROFILE_DEFAULTS } from "./types";
 import { DiagnosticsCollector } from "./diagnostics";
+import { findUnknownEnv, findUnknownKeys, sectionEnvPrefixes } from "./unknown-keys";
+import { assertSourceName, getRegisteredSources, type SourceContext, type ValueSource } from "./source-registry";
+import {
+  getActiveBranch,
+  getBranchValues,
+  getLiteralValue,
+  getMeta,
+  getObjectArrayElement,
+  getRecordValueType,
+  getSchemaOptions,
+  getUnionBranches,
+  getUnsetInput,
+  isZodLiteral,
+  isZodObject,
+  unwrapOptional,
+  type KeyMeta,
+} from "./introspect";
+import { assertNoEnvCollisions, createEnvNamer, createSchemaEnvNamer, fromEnvSegment, toEnvSegment, type EnvNamer } from "./env-naming";
+import { interpolate, type Placeholder } from "./interpolate";
+import { coerceString } from "./coerce";
+
+/** Values loaded from a single config file */
+export interface FileLayer {
+  path?: string;
+  values: Record<string, unknown>;
+}
 
 export interface ResolveOptions {
   initialValues?: Record<string, unknown>;
   fileValues?: Record<string, unknown>;
+  /** Config file layers in ascending priority; takes precedence over `fileValues`/`configPath` */
+  fileLayers?: FileLayer[];
   env?: Record<string, string | undefined>;
-  secretsPath?: string;
+  /** Secrets directory, or directories searched in order */
+  secretsPath?: string | string[];
   override?: Record<string, unknown>;
   configPath?: string;
+  /** Source priority, highest first; unlisted sources keep their default relative order */
+  sourceOrder?: SourceName[];
+  /** Prefix for env var names derived from key paths (overrides the schema's `envPrefix`) */
+  envPrefix?: string;
+  /** Naming strategy for derived env var names (overrides the schema's `envNaming`) */
+  envNaming?: EnvNaming;
+  /** Report keys in config files, `initialValues` or `override` that the schema doesn't define */
+  strict?: "warn" | "error";
+  /**
+   * Report env vars no field reads that start with the schema's `envPrefix`
+   * (and those of its sections), or with any of the given prefixes. Fails
+   * with `strict: "error"`, otherwise records warnings.
+   */
+  unknownEnv?: boolean | string[];
+  /** Active profile, picking `byProfile()` and function defaults (default: `NODE_ENV`) */
+  profile?: string;
+  /** Custom sources, added to (or replacing by name) those from `registerSource()` */
+  sources?: ValueSource[];
   /** @internal */
   _collector?: DiagnosticsCollector;
+  /** @internal */
+  _readSecret?: (path: string, maxSize?: number) => SecretFileContents | undefined;
+  /** @internal */
+  _readSource?: (source: ValueSource, key: unknown, context: SourceContext) => unknown;
 }
 
-interface KeyMeta {
-  env?: string;
-  secretFile?: string;
-  sensitive?: boolean;
-  default?: unknown;
+/** Default resolution priority, highest first */
+export const DEFAULT_SOURCE_ORDER: readonly SourceName[] = [
+  "override",
+  "env",
+  "secretFile",
+  "file",
+  "initial",
+  "derived",
+  "default",
+];
+
+/** Where a custom source goes in the default order, unless it sets `before` or `after` */
+const CUSTOM_SOURCE_POSITION: SourceName = "secretFile";
+
+/** Sources holding whole values by key path, whose arrays replace each other */
+const VALUE_SOURCES: readonly SourceName[] = ["override", "file", "initial"];
+
+/** Sources an array of objects takes its elements from */
+const ARRAY_SOURCES: readonly SourceName[] = [...VALUE_SOURCES, "default"];
+
+/** Source of optional, nullable and Zod-defaulted fields that no source provides */
+const UNSET_SOURCE = "unset";
+
+/** Sources that only ever yield strings, converted to the field's type before validation */
+const COERCED_SOURCES: readonly SourceName[] = ["env", "secretFile"];
+
+/** Sources whose string values have `${...}` placeholders expanded */
+const INTERPOLATED_SOURCES: readonly SourceName[] = ["file", "default"];
+
+interface ResolveContext {
+  schema: ZodTypeAny;
+  initialValues: Record<string, unknown> | undefined;
+  fileValues: Record<string, unknown> | undefined;
+  fileLayers: FileLayer[];
+  env: Record<string, string | undefined>;
+  secretsPaths: string[];
+  override: Record<string, unknown> | undefined;
+  sourceOrder: SourceName[];
+  /** Built-in and custom sources in default priority order */
+  defaultOrder: SourceName[];
+  customSources: Map<string, ValueSource>;
+  readSource: (source: ValueSource, key: unknown, context: SourceContext) => unknown;
+  envNamer: EnvNamer | undefined;
+  profile: string | undefined;
+  collector: DiagnosticsCollector;
+  readSecret: (path: string, maxSize?: number) => SecretFileContents | undefined;
+  issues: ConfigIssue[];
+  /** Env var names derived for fields without an explicit `env`, by path */
+  derivedEnv: Record<string, string>;
+  /** Env var names read by `${NAME}` placeholders */
+  envRead: Set<string>;
+  /** Leaves resolved so far, so `${ref:...}` placeholders can resolve keys out of order */
+  resolved: Map<string, ResolveResult>;
+  /** Leaves currently being resolved, innermost last, for reference cycle detection */
+  resolving: string[];
+  /** Paths marked sensitive, or interpolated from a sensitive value */
+  sensitivePaths: Set<string>;
+}
+
+/** Position of the fields being resolved within an array of objects */
+interface ElementScope {
+  /** Env var name of the array; element fields read `<env>_<index>_<KEY>` */
+  env: string | undefined;
+  index: number;
+  /** Length of the element's own path, i.e. the array path plus the index */
+  depth: number;
+  /** The array field's `default`, supplying per-element defaults */
+  defaults: unknown;
+  /** Source label of `defaults` */
+  defaultsSource: string | undefined;
+  /** The array field is sensitive, so every field of its elements is too */
+  sensitive: boolean;
+  /** Sources whose arrays were replaced by a higher-priority one, skipped inside the element */
+  excludedSources: SourceName[];
 }
 
 interface ResolveResult {
@@ -51,15 +185,69 @@ export function resolveValues<S extends ZfigSchema<Record<string, unknown>>>(
   schema: S,
   options: ResolveOptions = {}
 ): ResolvedConfig<S> {
-  const { initialValues, fileValues, env = process.env, secretsPath = "/secrets", override, configPath, _collector } = options;
+  const { initialValues, env = process.env, secretsPath = "/secrets", override, _collector, _readSecret = readSecretFile } = options;
   const collector = _collector ?? new DiagnosticsCollector();
-  const { value, sources } = resolveValue(schema, [], initialValues, fileValues, env, secretsPath, override, configPath, collector);
+  const fileLayers = options.fileLayers ?? (options.fileValues ? [{ path: options.configPath, values: options.fileValues }] : []);
+  const fileValues = options.fileLayers ? mergeLayers(fileLayers) : options.fileValues;
+  const customSources = collectSources(options.sources);
+  const defaultOrder = buildDefaultOrder(customSources);
+  const sourceOrder = normalizeSourceOrder(options.sourceOrder ?? [], "", defaultOrder);
+
+  const schemaOptions = getSchemaOptions(schema);
+  const envNamer = createSchemaEnvNamer(
+    schema,
+    createEnvNamer(options.envPrefix ?? schemaOptions.envPrefix, options.envNaming ?? schemaOptions.envNaming)
+  );
+  if (envNamer) assertNoEnvCollisions(schema, envNamer);
+
+  const ctx: ResolveContext = {
+    schema,
+    initialValues,
+    fileValues,
+    fileLayers,
+    env,
+    secretsPaths: Array.isArray(secretsPath) ? secretsPath : [secretsPath],
+    override,
+    sourceOrder,
+    defaultOrder,
+    customSources,
+    readSource: options._readSource ?? readSourceSync,
+    envNamer,
+    profile: options.profile ?? env.NODE_ENV,
+    collector,
+    readSecret: _readSecret,
+    issues: [],
+    derivedEnv: {},
+    envRead: new Set(),
+    resolved: new Map(),
+    resolving: [],
+    sensitivePaths: new Set(),
+  };
+  if (options.strict) checkUnknownKeys(options.strict, ctx);
+  const { value, sources } = resolveValue(schema, [], ctx);
+
+  if (options.unknownEnv) {
+    const prefixes =
+      options.unknownEnv === true
+        ? [options.envPrefix ?? schemaOptions.envPrefix, ...sectionEnvPrefixes(schema)]
+        : options.unknownEnv;
+    checkUnknownEnv(prefixes, options.strict ?? "warn", ctx);
+  }
+
+  // Cross-field rules only make sense once every field resolved to a valid value
+  if (ctx.issues.length === 0) checkRefinements(schema, [], value, sources, ctx);
+
+  // Every path has been visited by now, so all failures surface at once
+  if (ctx.issues.length > 0) {
+    throw ConfigError.fromIssues(ctx.issues, collector.getEvents());
+  }
+
   const result = value as ResolvedConfig<S>;
 
   let cachedRedacted: unknown;
   Object.defineProperty(result, "toString", {
     value: () => {
-      cachedRedacted ??= redactValue(schema, result);
+      cachedRedacted ??= redactValue(schema, result, ctx.sensitivePaths);
       return JSON.stringify(cachedRedacted, null, 2);
     },
     enumerable: false,
@@ -93,7 +281,7 @@ export function resolveValues<S extends ZfigSchema<Record<string, unknown>>>(
   let cachedDebugConfig: unknown;
   Object.defineProperty(result, "toDebugObject", {
     value: (options?: { includeDiagnostics?: boolean }) => {
-      cachedDebugConfig ??= buildConfigDebugObject(schema, result, sources);
+      cachedDebugConfig ??= buildConfigDebugObject(schema, result, sources, ctx.derivedEnv, ctx.sensitivePaths);
       return {
         config: cachedDebugConfig,
         ...(options?.includeDiagnostics && { diagnostics: getDiagnostics(result) ?? [] }),
@@ -106,22 +294,52 @@ export function resolveValues<S extends ZfigSchema<Record<string, unknown>>>(
   return result;
 }
 
+/** Report misspelled or stale keys, which would otherwise be ignored while a default wins */
+function checkUnknownKeys(strict: "warn" | "error", ctx: ResolveContext): void {
+  const sources = [
+    ...ctx.fileLayers.map((layer) => ({ source: layer.path ? `file:${layer.path}` : "file", values: layer.values })),
+    { source: "initial", values: ctx.initialValues },
+    { source: "override", values: ctx.override },
+  ];
+  for (const { source, values } of sources) {
+    for (const { path, suggestion } of findUnknownKeys(ctx.schema, values)) {
+      const hint = suggestion !== undefined ? `, did you mean '${suggestion}'?` : "";
+      const message = `Unknown key '${path}' in ${source}${hint}`;
+      if (strict === "warn") {
+        ctx.collector.addWarning(path, message);
+      } else {
+        ctx.issues.push({ path, message, sensitive: false, source, tried: [], zodIssues: [] });
+      }
+    }
+  }
+}
+
+/** Report env vars under the given prefixes that no field read, most likely misspelled names */
+function checkUnknownEnv(prefixes: (string | undefined)[], strict: "warn" | "error", ctx: ResolveContext): void {
+  const scanned = prefixes.filter((prefix): prefix is string => prefix !== undefined && prefix !== "");
+  for (const { name, suggestion } of findUnknownEnv(ctx.schema, ctx.env, ctx.envNamer, scanned, ctx.envRead)) {
+    const hint = suggestion !== undefined ? `, did you mean ${suggestion}?` : "";
+    const message = `Env var ${name} is not read by any field${hint}`;
+    if (strict === "warn") {
+      ctx.collector.addWarning(name, message);
+    } else {
+      ctx.issues.push({ path: name, message, sensitive: false, source: `env:${name}`, tried: [], zodIssues: [] });
+    }
+  }
+}
+
 function resolveValue(
   schema: ZodTypeAny,
   path: string[],
-  initialValues: Record<string, unknown> | undefined,
-  fileValues: Record<string, unknown> | undefined,
-  env: Record<string, string | undefined>,
-  secretsPath: string,
-  override: Record<string, unknown> | undefined,
-  configPath: string | undefined,
-  collector: DiagnosticsCollector
+  ctx: ResolveContext,
+  element?: ElementScope
 ): ResolveResult {
+  const { collector } = ctx;
   if (isZodObject(schema)) {
     const result: Record<string, unknown> = {};
     const sources: Record<string, ConfigSource> = {};
     for (const [key, childSchema] of Object.entries(schema.shape)) {
-      const childResult = resolveValue(childSchema, [...path, key], initialValues, fileValues, env, secretsPath, override, configPath, collector);
+      const childResult = resolveValue(childSchema, [...path, key], ctx, element);
       result[key] = childResult.value;
       Object.assign(sources, childResult.sources);
     }
@@ -132,105 +350,1020 @@ function resolveValue(
     return { value: getLiteralValue(schema), source: null, sources: {} };
   }
 
-  const meta = getMeta(schema);
+  const branches = getUnionBranches(schema);
+  if (branches) return resolveBranch(branches.key, branches.options, path, ctx, element);
+
   const pathStr = path.join(".");
+  const cached = ctx.resolved.get(pathStr);
+  if (cached) return cached;
+
+  const cycleStart = ctx.resolving.indexOf(pathStr);
+  if (cycleStart !== -1) {
+    const cycle = [...ctx.resolving.slice(cycleStart), pathStr].join(" -> ");
+    throw new ConfigError(`Reference cycle: ${cycle}`, pathStr, false, collector.getEvents());
+  }
+
+  ctx.resolving.push(pathStr);
+  try {
+    const elementSchema = getObjectArrayElement(schema);
+    const recordValueType = getRecordValueType(schema);
+    const result = elementSchema
+      ? resolveArray(schema, elementSchema, path, ctx, element)
+      : recordValueType
+        ? resolveRecord(schema, recordValueType, path, ctx, element)
+        : resolveLeaf(schema, path, ctx, fieldMeta(schema, path, ctx, element));
+    ctx.resolved.set(pathStr, result);
+    return result;
+  } finally {
+    ctx.resolving.pop();
+  }
+}
+
+/**
+ * Resolve an array of objects element by element, so each element's fields can
+ * come from indexed env vars and secret files. The elements come from the
+ * highest-priority source holding an array, which replaces those of lower
+ * ones; indexed env vars and secret files override its fields and can add
+ * elements past its end.
+ */
+function resolveArray(
+  schema: ZodTypeAny,
+  elementSchema: ZodTypeAny,
+  path: string[],
+  ctx: ResolveContext,
+  element?: ElementScope
+): ResolveResult {
+  const pathStr = path.join(".");
+  const meta = fieldMeta(schema, path, ctx, element);
   const sensitive = meta?.sensitive ?? false;
-  const tried: string[] = [];
 
-  // Get nested values for this specific key path
-  const overrideValue = getValueAtPath(override, path);
-  const initialValue = getValueAtPath(initialValues, path);
-  const fileValue = getValueAtPath(fileValues, path);
+  const sourceOrder = meta?.sourceOrder
+    ? normalizeSourceOrder(meta.sourceOrder, pathStr, ctx.defaultOrder)
+    : ctx.sourceOrder;
+  const base = sourceOrder
+    .filter((name) => ARRAY_SOURCES.includes(name) && !meta?.excludedSources?.includes(name))
+    .map((name) => ({ name, array: name === "default" ? meta?.default : getValueAtPath(sourceValues(name, ctx), path) }))
+    .find((candidate) => Array.isArray(candidate.array));
 
-  // Resolution priority: override > env > secretFile > fileValues > initialValues > default
-  let value: unknown;
-  let source: ConfigSource | undefined;
+  const env = meta?.env?.[0]?.name;
+  const scope = (index: number): ElementScope => ({
+    env,
+    index,
+    depth: path.length + 1,
+    defaults: base?.name === "default" ? meta?.default : undefined,
+    defaultsSource: meta?.defaultSource,
+    sensitive,
+    excludedSources: [
+      ...new Set([...(meta?.excludedSources ?? []), ...VALUE_SOURCES.filter((name) => name !== base?.name)]),
+    ],
+  });
+  let length = base ? (base.array as unknown[]).length : 0;
+  while (hasIndexedValue(elementSchema, [...path, String(length)], ctx, scope(length))) length++;
 
-  if (overrideValue !== undefined) {
-    tried.push("override");
-    value = overrideValue;
-    source = "override";
+  // Elements end at the first index nothing sets; vars for later ones would be dropped
+  const stranded = env === undefined ? [] : indexedEnvPast(env, length, ctx);
+  if (stranded.length > 0) {
+    ctx.issues.push({
+      path: pathStr,
+      message: `Invalid config at '${pathStr}': ${stranded.join(", ")} set, but element ${length} is missing`,
+      sensitive,
+      source: null,
+      tried: [`env:${env}_${length}_*`],
+      zodIssues: [],
+    });
+    return { value: undefined, source: null, sources: {} };
   }
 
-  if (value === undefined && meta?.env !== undefined) {
-    const envSource = `env:${meta.env}`;
-    tried.push(envSource);
-    const envValue = loadEnv(meta.env, env);
-    if (envValue !== undefined) {
-      value = envValue;
-      source = envSource;
-    }
+  if (length === 0 && !base) {
+    return resolveAbsent(schema, pathStr, sensitive, env !== undefined ? [`env:${env}_0_*`] : [], ctx);
   }
 
-  if (value === undefined && meta?.secretFile !== undefined) {
-    const secretFilePath = isAbsolute(meta.secretFile)
-      ? meta.secretFile
-      : join(secretsPath, meta.secretFile);
-    const secretSource = `secretFile:${secretFilePath}`;
-    tried.push(secretSource);
-    const secretValue = loadSecretFile(secretFilePath);
-    if (secretValue !== undefined) {
-      value = secretValue;
-      source = secretSource;
-    }
+  const issueCount = ctx.issues.length;
+  const value: unknown[] = [];
+  const sources: Record<string, ConfigSource> = {};
+  for (let index = 0; index < length; index++) {
+    const item = resolveValue(elementSchema, [...path, String(index)], ctx, scope(index));
+    value.push(item.value);
+    Object.assign(sources, item.sources);
+  }
+  if (ctx.issues.length > issueCount) {
+    return { value: undefined, source: null, sources: {} };
   }
 
-  if (value === undefined && fileValue !== undefined) {
-    const fileSource = configPath ? `file:${configPath}` : "file";
-    tried.push(fileSource);
-    value = fileValue;
-    source = fileSource;
+  // Elements are validated already; check array-level constraints such as `.min()`
+  const array = unwrapOptional(schema);
+  const arrayChecks = array.clone({ ...array._zod.def, element: z.unknown() } as typeof array._zod.def);
+  const result = arrayChecks.safeParse(value);
+  if (!result.success) {
+    const messages = result.error.issues.map((issue) => issue.message).join("; ");
+    ctx.issues.push({
+      path: pathStr,
+      message: `Invalid config at '${pathStr}': ${messages} (length: ${value.length})`,
+      sensitive,
+      source: null,
+      tried: [],
+      zodIssues: result.error.issues.map((issue) => scopeIssue(issue, path, sensitive)),
+    });
+    return { value: undefined, source: null, sources: {} };
   }
 
-  if (value === undefined && initialValue !== undefined) {
-    tried.push("initial");
-    value = initialValue;
-    source = "initial";
+  return { value, source: null, sources };
+}
+
+/** An array or record no source provides: unset if its type is optional, else missing */
+function resolveAbsent(
+  schema: ZodTypeAny,
+  pathStr: string,
+  sensitive: boolean,
+  tried: string[],
+  ctx: ResolveContext
+): ResolveResult {
+  const unset = getUnsetInput(schema);
+  if (unset) {
+    return { value: schema.parse(unset.input), source: UNSET_SOURCE, sources: { [pathStr]: UNSET_SOURCE } };
+  }
+  ctx.issues.push({
+    path: pathStr,
+    message: `Missing required config at '${pathStr}' (value: undefined)`,
+    sensitive,
+    source: null,
+    tried,
+    zodIssues: [],
+  });
+  return { value: undefined, source: null, sources: {} };
+}
+
+/** Values of a source that holds whole values by key path */
+function sourceValues(name: SourceName, ctx: ResolveContext): Record<string, unknown> | undefined {
+  if (name === "override") return ctx.override;
+  if (name === "file") return ctx.fileValues;
+  if (name === "initial") return ctx.initialValues;
+  return undefined;
+}
+
+/** Env vars named `<env>_<i>_…` for an index `i` at or past `length` */
+function indexedEnvPast(env: string, length: number, ctx: ResolveContext): string[] {
+  return Object.keys(ctx.env).filter((name) => {
+    const index = /^(\d+)_/.exec(name.slice(env.length + 1))?.[1];
+    return name.startsWith(`${env}_`) && ctx.env[name] !== undefined && index !== undefined && Number(index) >= length;
+  });
+}
+
+/** Whether an env var or secret file exists for any field of the element at `path` */
+function hasIndexedValue(schema: ZodTypeAny, path: string[], ctx: ResolveContext, element: ElementScope): boolean {
+  if (isZodObject(schema)) {
+    return Object.entries(schema.shape).some(([key, child]) => hasIndexedValue(child, [...path, key], ctx, element));
+  }
+  if (isZodLiteral(schema) || getObjectArrayElement(schema)) return false;
+
+  const meta = elementMeta(getMeta(schema), path, element);
+  const envSet = (name: string) => loadEnv(name, ctx.env) !== undefined;
+  if (meta.env?.some((alias) => envSet(alias.name) || envSet(`${alias.name}${ENV_FILE_SUFFIX}`))) return true;
+  // A secret file without an `{index}` token is shared by all elements and can't add any
+  return (
+    getMeta(schema)?.secretFile?.includes("{index}") === true &&
+    resolveSecretPaths(meta.secretFile!, ctx).some(
+      (secretPath) => ctx.readSecret(secretPath, meta.secretOptions?.maxSize) !== undefined
+    )
+  );
+}
+
+/**
+ * Resolve a `z.record` section entry by entry. Keys are collected from every
+ * source holding the record, plus env vars starting with the record's `env`
+ * followed by `_` (`FLAG_NEW_CHECKOUT` → `newCheckout`). Each entry then goes
+ * through the usual source priority, reading `<env>_<KEY>` from env.
+ */
+function resolveRecord(
+  schema: ZodTypeAny,
+  valueType: ZodTypeAny,
+  path: string[],
+  ctx: ResolveContext,
+  element?: ElementScope
+): ResolveResult {
+  const pathStr = path.join(".");
+  const meta = fieldMeta(schema, path, ctx, element);
+  const sensitive = meta?.sensitive ?? false;
+  const env = meta?.env?.[0]?.name;
+  const prefix = env !== undefined ? (env.endsWith("_") ? env : `${env}_`) : undefined;
+
+  const records = VALUE_SOURCES.filter((name) => !meta?.excludedSources?.includes(name))
+    .map((name) => getValueAtPath(sourceValues(name, ctx), path))
+    .concat([meta?.default])
+    .filter(isPlainObject);
+  const recordKeys = [...new Set(records.flatMap((record) => Object.keys(record)))];
+  const recordSegments = new Set(recordKeys.map(toEnvSegment));
+  const envKeys =
+    prefix === undefined
+      ? []
+      : Object.keys(ctx.env)
+          .filter((name) => name.length > prefix.length && name.startsWith(prefix) && ctx.env[name] !== undefined)
+          .map((name) => name.slice(prefix.length))
+          .map((key) => (key.endsWith(ENV_FILE_SUFFIX) ? key.slice(0, -ENV_FILE_SUFFIX.length) : key))
+          // A var for a key the records already have, e.g. `ACME_CORP` for `acme-corp`, sets that key
+          .filter((key) => key !== "" && !recordSegments.has(key))
+          .map(fromEnvSegment);
+  const keys = [...new Set([...recordKeys, ...envKeys])];
+
+  if (keys.length === 0 && records.length === 0) {
+    return resolveAbsent(schema, pathStr, sensitive, prefix !== undefined ? [`env:${prefix}*`] : [], ctx);
   }
 
-  if (value === undefined && meta?.default !== undefined) {
-    tried.push("default");
-    value = meta.default;
-    source = "default";
+  const issueCount = ctx.issues.length;
+  const value: Record<string, unknown> = {};
+  const sources: Record<string, ConfigSource> = {};
+  for (const key of keys) {
+    const entryPath = [...path, key];
+    const entryEnv = prefix !== undefined ? `${prefix}${toEnvSegment(key)}` : undefined;
+    const entryMeta: KeyMeta = {
+      sensitive: meta?.sensitive,
+      sourceOrder: meta?.sourceOrder,
+      secretOptions: meta?.secretOptions,
+      env: entryEnv !== undefined ? [{ name: entryEnv }] : undefined,
+      default: getValueAtPath(meta?.default, [key]),
+      defaultSource: meta?.defaultSource,
+      excludedSources: meta?.excludedSources,
+    };
+    if (entryEnv !== undefined) ctx.derivedEnv[entryPath.join(".")] = entryEnv;
+    const entry = resolveLeaf(valueType, entryPath, ctx, entryMeta);
+    value[key] = entry.value;
+    Object.assign(sources, entry.sources);
+  }
+  if (ctx.issues.length > issueCount) {
+    return { value: undefined, source: null, sources: {} };
+  }
+
+  // Entries are validated already; check the keys against the record's key schema
+  const record = unwrapOptional(schema);
+  const keyChecks = record.clone({ ...record._zod.def, valueType: z.unknown() } as typeof record._zod.def);
+  const result = keyChecks.safeParse(value);
+  if (!result.success) {
+    const messages = result.error.issues.map((issue) => issue.message).join("; ");
+    ctx.issues.push({
+      path: pathStr,
+      message: `Invalid config at '${pathStr}': ${messages} (keys: ${keys.join(", ")})`,
+      sensitive,
+      source: null,
+      tried: [],
+      zodIssues: result.error.issues.map((issue) => scopeIssue(issue, path, sensitive)),
+    });
+    return { value: undefined, source: null, sources: {} };
+  }
+
+  return { value, source: null, sources };
+}
+
+/**
+ * Resolve the discriminator of a `z.discriminatedUnion()` section like any
+ * field, then only the branch its value picks. Other branches are never read,
+ * so their missing fields don't fail resolution.
+ */
+function resolveBranch(
+  key: string,
+  options: ZodObject<Record<string, ZodTypeAny>>[],
+  path: string[],
+  ctx: ResolveContext,
+  element: ElementScope | undefined
+): ResolveResult {
+  const keyPath = [...path, key];
+  const values = options.flatMap((option) => getBranchValues(option, key));
+  const discriminator = resolveDiscriminator(key, options, path, ctx, element);
+  if (discriminator.value === undefined) return { value: undefined, source: null, sources: {} };
+
+  const picked = options.find((option) => getBranchValues(option, key).includes(discriminator.value))!;
+  ctx.collector.addBranch(path.join("."), keyPath.join("."), String(discriminator.value), values.map(String));
+
+  const result = resolveValue(picked, path, ctx, element);
+  const value = { ...(result.value as Record<string, unknown>), [key]: discriminator.value };
+  return { value, source: null, sources: { ...result.sources, ...discriminator.sources } };
+}
+
+/**
+ * Resolve the discriminator of a section once, so keys that depend on it, e.g.
+ * in `requiredWhen`, can pick the branch before the section itself resolves.
+ */
+function resolveDiscriminator(
+  key: string,
+  options: ZodObject<Record<string, ZodTypeAny>>[],
+  path: string[],
+  ctx: ResolveContext,
+  element: ElementScope | undefined
+): ResolveResult {
+  const keyPath = [...path, key];
+  const cached = ctx.resolved.get(keyPath.join("."));
+  if (cached) return cached;
+
+  const keySchemas = options.map((option) => option.shape[key]);
+  const values = options.flatMap((option) => getBranchValues(option, key)) as z.core.util.Literal[];
+  const meta = fieldMeta(keySchemas.find((keySchema) => getMeta(keySchema)) ?? keySchemas[0], keyPath, ctx, element);
+  const result = resolveLeaf(z.literal(values), keyPath, ctx, meta);
+  ctx.resolved.set(keyPath.join("."), result);
+  return result;
+}
+
+function resolveLeaf(
+  schema: ZodTypeAny,
+  path: string[],
+  ctx: ResolveContext,
+  meta: KeyMeta | undefined
+): ResolveResult {
+  const { collector } = ctx;
+  const pathStr = path.join(".");
+  let sensitive = meta?.sensitive ?? false;
+  const tried: string[] = [];
+  const sourceOrder = meta?.sourceOrder
+    ? normalizeSourceOrder(meta.sourceOrder, pathStr, ctx.defaultOrder)
+    : ctx.sourceOrder;
+
+  let value: unknown;
+  let source: ConfigSource | undefined;
+  let sourceName: SourceName | undefined;
+  let sourceError: string | undefined;
+
+  // Walk sources in priority order, stopping at the first one that yields a value
+  for (const name of sourceOrder) {
+    if (meta?.excludedSources?.includes(name)) continue;
+    const found = (sourceLookups[name as BuiltinSourceName] ?? lookupCustom)(path, meta, ctx, tried, name);
+    if (found) {
+      ({ value, source, error: sourceError } = found);
+      sourceName = name;
+      if (found.sensitive) sensitive = true;
+      break;
+    }
+  }
+
+  // Optional, nullable and Zod-defaulted types resolve without a value, unless `requiredWhen` holds
+  const requiredBy = source === undefined ? heldCondition(meta, pathStr, ctx) : undefined;
+  const unset = source === undefined && !requiredBy ? getUnsetInput(schema) : undefined;
+  if (unset) {
+    value = unset.input;
+    source = UNSET_SOURCE;
   }
 
   collector.addSourceDecision(pathStr, source!, tried);
+  if (sensitive) ctx.sensitivePaths.add(pathStr);
 
-  if (value === undefined) {
-    throw new ConfigError(
-      `Missing required config at '${pathStr}' (value: ${formatValue(value, sensitive)})`,
-      pathStr,
+  if (sourceError !== undefined) {
+    ctx.issues.push({
+      path: pathStr,
+      message: `Invalid config at '${pathStr}': ${sourceError}`,
       sensitive,
-      collector.getEvents()
-    );
+      source: source!,
+      tried,
+      zodIssues: [],
+    });
+    return { value: undefined, source: source!, sources: {} };
+  }
+
+  if (value === undefined && !unset) {
+    // List every directory searched, since the secret may have been expected in any of them
+    const searched =
+      meta?.secretFile !== undefined && !isAbsolute(meta.secretFile)
+        ? `; secret file '${meta.secretFile}' not found in ${ctx.secretsPaths.join(", ")}`
+        : "";
+    const reason = requiredBy ? `; required when ${requiredBy}` : "";
+    ctx.issues.push({
+      path: pathStr,
+      message: `Missing required config at '${pathStr}' (value: ${formatValue(value, sensitive)})${searched}${reason}`,
+      sensitive,
+      source: null,
+      tried,
+      zodIssues: [],
+    });
+    return { value: undefined, source: null, sources: {} };
+  }
+
+  if ((COERCED_SOURCES.includes(sourceName!) || ctx.customSources.has(sourceName!)) && typeof value === "string") {
+    const coerced = coerceString(schema, value);
+    if ("error" in coerced) {
+      ctx.issues.push({
+        path: pathStr,
+        message: `Cannot coerce ${source} at '${pathStr}': ${coerced.error} (value: ${formatValue(value, sensitive)})`,
+        sensitive,
+        source: source!,
+        tried,
+        zodIssues: [],
+      });
+      return { value: undefined, source: source!, sources: {} };
+    }
+    value = coerced.value;
+  }
+
+  if (INTERPOLATED_SOURCES.includes(sourceName!)) {
+    const expanded = expandPlaceholders(value, pathStr, ctx);
+    if (expanded.errors.length > 0) {
+      ctx.issues.push({
+        path: pathStr,
+        message: `Cannot interpolate config at '${pathStr}': ${expanded.errors.join("; ")}`,
+        sensitive,
+        source: source!,
+        tried,
+        zodIssues: [],
+      });
+      return { value: undefined, source: source!, sources: {} };
+    }
+    value = expanded.value;
+    if (expanded.sensitive) {
+      sensitive = true;
+      ctx.sensitivePaths.add(pathStr);
+    }
   }
 
   // Validate with Zod schema
   const result = schema.safeParse(value);
   if (!result.success) {
-    throw new ConfigError(
-      `Invalid config at '${pathStr}': ${result.error.issues[0]?.message} (value: ${formatValue(value, sensitive)})`,
-      pathStr,
+    const messages = result.error.issues.map((issue) => issue.message).join("; ");
+    ctx.issues.push({
+      path: pathStr,
+      message: `Invalid config at '${pathStr}': ${messages} (value: ${formatValue(value, sensitive)})`,
       sensitive,
-      collector.getEvents()
-    );
+      source: source!,
+      tried,
+      zodIssues: result.error.issues.map((issue) => scopeIssue(issue, path, sensitive)),
+    });
+    return { value: undefined, source: source!, sources: {} };
   }
 
-
   return { value: result.data, source: source!, sources: { [pathStr]: source! } };
 }
 
-function redactValue(schema: ZodTypeAny, value: unknown): unknown {
+/**
+ * Run a field's `derive`, or read the key it names. Every key read is resolved
+ * first if it hasn't been yet, and recorded as an input.
+ */
+function deriveValue(
+  derive: Derive,
+  path: string[],
+  ctx: ResolveContext
+): { value: unknown; inputs: string[]; sensitive: boolean; error?: string } {
+  const inputs: string[] = [];
+
+  const read = (keyPath: string[]): unknown => {
+    const target = getActiveSchemaAtPath(keyPath, ctx);
+    if (!target) return undefined;
+    if (isZodObject(target)) return view(target, keyPath);
+    inputs.push(keyPath.join("."));
+    return readKey(target, keyPath, ctx);
+  };
+  // Sections are read key by key, so only what `derive` touches becomes an input
+  const view = (object: ZodObject<Record<string, ZodTypeAny>>, objectPath: string[]) => {
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(object.shape)) {
+      Object.defineProperty(result, key, { get: () => read([...objectPath, key]), enumerable: true });
+    }
+    return result;
+  };
+
+  let value: unknown;
+  let error: string | undefined;
+  if (typeof derive === "string") {
+    value = read(derive.split("."));
+  } else {
+    try {
+      value = derive(view(ctx.schema as ZodObject<Record<string, ZodTypeAny>>, []));
+    } catch (e) {
+      // Reference cycles are reported as such, not as a failure of this field
+      if (e instanceof ConfigError) throw e;
+      error = `derive() threw: ${e instanceof Error ? e.message : String(e)}`;
+    }
+  }
+
+  const unique = [...new Set(inputs)];
+  const failed = unique.filter((input) => ctx.issues.some((issue) => issue.path === input));
+  if (failed.length > 0 && error === undefined) {
+    error = `derived from invalid config at ${failed.map((input) => `'${input}'`).join(", ")}`;
+  }
+  return {
+    value,
+    inputs: unique,
+    sensitive: unique.some((input) => touchesSensitive(input, ctx.sensitivePaths)),
+    error,
+  };
+}
+
+/** Whether a key, or any key inside it, is sensitive */
+function touchesSensitive(pathStr: string, sensitivePaths: Set<string>): boolean {
+  return [...sensitivePaths].some((p) => p === pathStr || p.startsWith(`${pathStr}.`));
+}
+
+/** Description of the field's `requiredWhen` condition if it holds, resolving the key it names first */
+function heldCondition(meta: KeyMeta | undefined, pathStr: string, ctx: ResolveContext): string | undefined {
+  const condition = meta?.requiredWhen;
+  if (!condition) return undefined;
+
+  const path = condition.key.split(".");
+  const declared = getSchemaAtPath(ctx.schema, path);
+  if (!declared || isZodObject(declared)) {
+    throw new ConfigError(`Unknown key '${condition.key}' in requiredWhen at '${pathStr}'`, pathStr, false);
+  }
+  // A key of a branch that wasn't picked has no value
+  const target = getActiveSchemaAtPath(path, ctx);
+  const value = target ? readKey(target, path, ctx) : undefined;
+
+  if ("equals" in condition) {
+    return value === condition.equals ? `${condition.key} is ${formatValue(condition.equals, false)}` : undefined;
+  }
+  return condition.oneOf.includes(value)
+    ? `${condition.key} is one of ${condition.oneOf.map((option) => formatValue(option, false)).join(", ")}`
+    : undefined;
+}
+
+/** Expand `${ENV}`, `${ENV:-fallback}` and `${ref:key.path}` placeholders in a file or default value */
+function expandPlaceholders(
+  value: unknown,
+  pathStr: string,
+  ctx: ResolveContext
+): { value: unknown; errors: string[]; sensitive: boolean } {
+  const errors: string[] = [];
+  const expanded: string[] = [];
+  let sensitive = false;
+
+  const replace = (placeholder: Placeholder, raw: string): string => {
+    expanded.push(raw);
+    if (placeholder.kind === "env") {
+      if (placeholder.name) ctx.envRead.add(placeholder.name);
+      const envValue = placeholder.name ? loadEnv(placeholder.name, ctx.env) : undefined;
+      if (envValue !== undefined && (envValue !== "" || placeholder.fallback === undefined)) return envValue;
+      if (placeholder.fallback !== undefined) return placeholder.fallback;
+      errors.push(placeholder.name ? `env var '${placeholder.name}' is not set` : `empty placeholder '${raw}'`);
+      return "";
+    }
+
+    const ref = resolveReference(placeholder.path, ctx);
+    if ("error" in ref) {
+      errors.push(`${raw}: ${ref.error}`);
+      return "";
+    }
+    sensitive ||= ref.sensitive;
+    return ref.value;
+  };
+
+  const result = interpolate(value, replace);
+  if (expanded.length > 0) {
+    ctx.collector.addNote(`interpolated placeholders at '${pathStr}'`, { key: pathStr, placeholders: expanded });
+  }
+  return { value: result, errors, sensitive };
+}
+
+/** Resolve the key a `${ref:...}` placeholder points at, resolving it first if needed */
+function resolveReference(
+  refPath: string,
+  ctx: ResolveContext
+): { value: string; sensitive: boolean } | { error: string } {
+  const path = refPath.split(".");
+  const declared = getSchemaAtPath(ctx.schema, path);
+  if (!declared) return { error: `unknown key '${refPath}'` };
+  if (isZodObject(declared) || getUnionBranches(declared)) return { error: `'${refPath}' is an object, not a value` };
+
+  const target = getActiveSchemaAtPath(path, ctx);
+  const value = target ? readKey(target, path, ctx) : undefined;
+  if (value === undefined) return { error: `'${refPath}' has no valid value` };
+  if (typeof value === "object" && value !== null) return { error: `'${refPath}' is not a scalar value` };
+  return { value: String(value), sensitive: ctx.sensitivePaths.has(refPath) };
+}
+
+/** Schema of the key at `path`; inside a discriminated section, from any branch that has the key */
+function getSchemaAtPath(schema: ZodTypeAny, path: string[]): ZodTypeAny | undefined {
+  let current: ZodTypeAny | undefined = schema;
+  for (const key of path) {
+    const branches: ReturnType<typeof getUnionBranches> = current && getUnionBranches(current);
+    if (branches) current = branches.options.find((option) => Object.hasOwn(option.shape, key));
+    if (!current || !isZodObject(current) || !Object.hasOwn(current.shape, key)) return undefined;
+    current = current.shape[key];
+  }
+  return current;
+}
+
+/**
+ * Schema of the key at `path` in the resolved config: discriminated sections
+ * on the way are entered through the branch their discriminator picks, and
+ * keys of other branches are `undefined`.
+ */
+function getActiveSchemaAtPath(path: string[], ctx: ResolveContext): ZodTypeAny | undefined {
+  let current: ZodTypeAny | undefined = ctx.schema;
+  for (const [i, key] of path.entries()) {
+    current = current && pickBranch(current, path.slice(0, i), ctx);
+    if (!current || !isZodObject(current) || !Object.hasOwn(current.shape, key)) return undefined;
+    current = current.shape[key];
+  }
+  return pickBranch(current, path, ctx);
+}
+
+/** The branch of a discriminated section its discriminator picks; other schemas as they are */
+function pickBranch(schema: ZodTypeAny, path: string[], ctx: ResolveContext): ZodTypeAny | undefined {
+  const branches = getUnionBranches(schema);
+  if (!branches) return schema;
+  const { value } = resolveDiscriminator(branches.key, branches.options, path, ctx, undefined);
+  return branches.options.find((option) => getBranchValues(option, branches.key).includes(value));
+}
+
+/** Value of a key, resolving it first if needed; a discriminator has the value resolved for its section */
+function readKey(target: ZodTypeAny, path: string[], ctx: ResolveContext): unknown {
+  if (!isZodLiteral(target)) return resolveValue(target, path, ctx).value;
+  return ctx.resolved.get(path.join("."))?.value ?? getLiteralValue(target);
+}
+
+/** Run the `refine` and `superRefine` rules of the schema and its sections, innermost first */
+function checkRefinements(
+  schema: ZodTypeAny,
+  path: string[],
+  config: unknown,
+  sources: Record<string, ConfigSource>,
+  ctx: ResolveContext
+): void {
+  if (!isZodObject(schema)) return;
+  for (const [key, child] of Object.entries(schema.shape)) {
+    checkRefinements(child, [...path, key], config, sources, ctx);
+  }
+
+  const { refine = [], superRefine } = getSchemaOptions(schema);
+  const section = getValueAtPath(config, path) as Record<string, unknown>;
+  const addIssue = ({ message, paths = [] }: { message: string; paths?: string[] }) => {
+    const involved = paths.map((key) => [...path, ...key.split(".")]);
+    ctx.issues.push(refinementIssue(message, path, involved, config, sources, ctx));
+  };
+  // A rule that throws, e.g. on an unset optional key, fails the section like one that doesn't hold
+  const run = (name: string, check: () => void) => {
+    try {
+      check();
+    } catch (e) {
+      addIssue({ message: `${name} threw: ${e instanceof Error ? e.message : String(e)}` });
+    }
+  };
+  for (const rule of refine) {
+    run("refine()", () => {
+      if (!rule.check(section)) addIssue(rule);
+    });
+  }
+  if (superRefine) run("superRefine()", () => superRefine(section, { addIssue }));
+}
+
+/** Issue for a failed cross-field rule, listing the value and source of every key involved */
+function refinementIssue(
+  message: string,
+  sectionPath: string[],
+  involved: string[][],
+  config: unknown,
+  sources: Record<string, ConfigSource>,
+  ctx: ResolveContext
+): ConfigIssue {
+  const keys = involved.map((path) => {
+    const pathStr = path.join(".");
+    const sensitive = touchesSensitive(pathStr, ctx.sensitivePaths);
+    const value = getValueAtPath(config, path);
+    const target = getSchemaAtPath(ctx.schema, path);
+    const shown = ctx.sensitivePaths.has(pathStr)
+      ? formatValue(value, true)
+      : formatValue(target ? redactValue(target, value, ctx.sensitivePaths, path) : value, false);
+    const source = sources[pathStr];
+    return { path: pathStr, sensitive, source, text: `${pathStr}: ${shown}${source ? ` from ${source}` : ""}` };
+  });
+
+  const pathStr = keys[0]?.path ?? sectionPath.join(".");
+  const at = pathStr ? ` at '${pathStr}'` : "";
+  const details = keys.length > 0 ? ` (${keys.map((key) => key.text).join(", ")})` : "";
+  return {
+    path: pathStr,
+    message: `Invalid config${at}: ${message}${details}`,
+    sensitive: keys.some((key) => key.sensitive),
+    source: keys[0]?.source ?? null,
+    tried: [],
+    zodIssues: [],
+  };
+}
+
+/** Make a leaf-level Zod issue point at the full config path, hiding its input if sensitive */
+function scopeIssue(issue: z.core.$ZodIssue, path: string[], sensitive: boolean): z.core.$ZodIssue {
+  const scoped = { ...issue, path: [...path, ...issue.path] };
+  if (sensitive && "input" in scoped) {
+    scoped.input = "[REDACTED]";
+  }
+  return scoped;
+}
+
+/** Field metadata with env var names and secret paths filled in for derived naming and array elements */
+function fieldMeta(
+  schema: ZodTypeAny,
+  path: string[],
+  ctx: ResolveContext,
+  element: ElementScope | undefined
+): KeyMeta | undefined {
+  const meta = profileDefault(getMeta(schema), ctx);
+  if (element) {
+    const scoped = elementMeta(meta, path, element);
+    if (scoped.env !== undefined) ctx.derivedEnv[path.join(".")] = scoped.env[0].name;
+    return scoped;
+  }
+  if (meta?.env !== undefined || !ctx.envNamer) return meta;
+  const env = ctx.envNamer(path);
+  if (env === undefined) return meta;
+  ctx.derivedEnv[path.join(".")] = env;
+  return { ...meta, env: [{ name: env }] };
+}
+
+/** Replace a `byProfile()` or function default with the value for the active profile */
+function profileDefault(meta: KeyMeta | undefined, ctx: ResolveContext): KeyMeta | undefined {
+  const fallback = meta?.default;
+  const { profile } = ctx;
+  if (isProfileDefaults(fallback)) {
+    const listed = profile !== undefined && Object.hasOwn(fallback.profiles, profile);
+    return {
+      ...meta,
+      default: listed ? fallback.profiles[profile] : fallback.fallback,
+      defaultSource: listed ? `default:${profile}` : "default",
+    };
+  }
+  if (typeof fallback === "function") {
+    const value = (fallback as DefaultFn)({ profile, env: ctx.env });
+    return { ...meta, default: value, defaultSource: profile !== undefined ? `default:${profile}` : "default" };
+  }
+  return meta;
+}
+
+function isProfileDefaults(value: unknown): value is ProfileDefaults {
+  return typeof value === "object" && value !== null && PROFILE_DEFAULTS in value;
+}
+
+/**
+ * Inside an array element, `env` is a suffix of the array's indexed name
+ * (`BROKERS_1_HOST`), `{index}` in `secretFile` is the element index, and
+ * the array's `default` supplies defaults for the element's fields. A
+ * sensitive array makes all of its element fields sensitive.
+ */
+function elementMeta(meta: KeyMeta | undefined, path: string[], element: ElementScope): KeyMeta {
+  const relative = path.slice(element.depth);
+  const prefix = `${element.env}_${element.index}_`;
+  const suffixes = meta?.env ?? [{ name: relative.map(toEnvSegment).join("_") }];
+  return {
+    ...meta,
+    env: element.env !== undefined ? suffixes.map((alias) => ({ ...alias, name: prefix + alias.name })) : undefined,
+    secretFile: meta?.secretFile?.replaceAll("{index}", String(element.index)),
+    sensitive: meta?.sensitive || element.sensitive,
+    excludedSources: element.excludedSources,
+    ...(meta?.default === undefined && {
+      default: getValueAtPath(element.defaults, [String(element.index), ...relative]),
+      defaultSource: element.defaultsSource,
+    }),
+  };
+}
+
+/** Read `NAME`, or the file `NAME_FILE` points at; setting both is an error */
+function lookupEnv(
+  name: string,
+  path: string[],
+  meta: KeyMeta,
+  ctx: ResolveContext,
+  tried: string[]
+): SourceHit | undefined {
+  const source = `env:${name}`;
+  tried.push(source);
+  const value = loadEnv(name, ctx.env);
+
+  const fileVar = `${name}${ENV_FILE_SUFFIX}`;
+  const filePath = loadEnv(fileVar, ctx.env);
+  if (filePath === undefined) {
+    return value !== undefined ? { value, source } : undefined;
+  }
+
+  const fileSource = `envFile:${fileVar} -> ${filePath}`;
+  tried.push(fileSource);
+  if (value !== undefined) {
+    return { value, source, error: `both ${name} and ${fileVar} are set; unset one of them` };
+  }
+  const file = readSecretValue(filePath, path, meta, ctx);
+  if (file === undefined) {
+    return { value: undefined, source: fileSource, error: `${fileVar} points to ${filePath}, which can't be read` };
+  }
+  return { value: file.value, source: fileSource, error: file.error };
+}
+
+/** Read a secret file as the field's `secretOptions` ask; `undefined` when there is no such file */
+function readSecretValue(
+  filePath: string,
+  path: string[],
+  meta: KeyMeta,
+  ctx: ResolveContext
+): { value: unknown; error?: string } | undefined {
+  const { encoding = "utf8", trim = true, maxSize, permissions = "ignore" } = meta.secretOptions ?? {};
+  const contents = ctx.readSecret(filePath, maxSize);
+  if (!contents) return undefined;
+
+  if (maxSize !== undefined && contents.size > maxSize) {
+    return { value: undefined, error: `secret file ${filePath} is ${contents.size} bytes, over the ${maxSize} byte limit` };
+  }
+
+  // Permission bits mean nothing on Windows
+  if (permissions !== "ignore" && contents.mode & 0o044 && process.platform !== "win32") {
+    const mode = contents.mode.toString(8).padStart(4, "0");
+    const readable = `readable by group or others (mode ${mode})`;
+    if (permissions === "error") return { value: undefined, error: `secret file ${filePath} is ${readable}` };
+    ctx.collector.addWarning(path.join("."), `Secret file ${filePath} is ${readable}`);
+  }
+
+  const data = contents.data!;
+  if (encoding === "buffer") return { value: data };
+  if (encoding === "base64") {
+    const text = data.toString("utf8").replace(/\s+/g, "");
+    if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(text)) {
+      return { value: undefined, error: `secret file ${filePath} is not valid base64` };
+    }
+    return { value: Buffer.from(text, "base64") };
+  }
+  const text = data.toString("utf8");
+  return { value: trim ? text.trim() : text };
+}
+
+function deprecationMessage(alias: EnvAlias, aliases: EnvAlias[], path: string[]): string {
+  const message = `Env var ${alias.name} for '${path.join(".")}' is deprecated`;
+  if (typeof alias.deprecated === "string") return `${message}: ${alias.deprecated}`;
+  const replacement = aliases.find((a) => !a.deprecated);
+  return replacement ? `${message}, use ${replacement.name} instead` : message;
+}
+
+/** Candidate paths for a secret file, one per secrets directory unless the path is absolute */
+function resolveSecretPaths(secretFile: string, ctx: ResolveContext): string[] {
+  return isAbsolute(secretFile) ? [secretFile] : ctx.secretsPaths.map((dir) => join(dir, secretFile));
+}
+
+/** A value found by a source, or an `error` when the source is set up but unusable */
+interface SourceHit {
+  value: unknown;
+  source: ConfigSource;
+  error?: string;
+  /** Computed from a sensitive value, so the field must be redacted too */
+  sensitive?: boolean;
+}
+
+type SourceLookup = (
+  path: string[],
+  meta: KeyMeta | undefined,
+  ctx: ResolveContext,
+  tried: string[],
+  name: SourceName
+) => SourceHit | undefined;
+
+/** Suffix of the env var pointing at a file that holds the value, Docker secrets style */
+const ENV_FILE_SUFFIX = "_FILE";
+
+const sourceLookups: Record<BuiltinSourceName, SourceLookup> = {
+  override(path, _meta, ctx, tried) {
+    const value = getValueAtPath(ctx.override, path);
+    if (value === undefined) return undefined;
+    tried.push("override");
+    return { value, source: "override" };
+  },
+
+  env(path, meta, ctx, tried) {
+    // Aliases are tried in order; the first one that is set wins
+    for (const alias of meta?.env ?? []) {
+      const hit = lookupEnv(alias.name, path, meta!, ctx, tried);
+      if (!hit) continue;
+      if (alias.deprecated) {
+        ctx.collector.addWarning(path.join("."), deprecationMessage(alias, meta!.env!, path));
+      }
+      return hit;
+    }
+    return undefined;
+  },
+
+  secretFile(path, meta, ctx, tried) {
+    if (meta?.secretFile === undefined) return undefined;
+    for (const secretFilePath of resolveSecretPaths(meta.secretFile, ctx)) {
+      const source = `secretFile:${secretFilePath}`;
+      tried.push(source);
+      const file = readSecretValue(secretFilePath, path, meta, ctx);
+      if (file !== undefined) return { value: file.value, source, error: file.error };
+    }
+    return undefined;
+  },
+
+  file(path, _meta, ctx, tried) {
+    const value = getValueAtPath(ctx.fileValues, path);
+    if (value === undefined) return undefined;
+    // Attribute the value to the highest-priority layer that defines it
+    const layer = [...ctx.fileLayers].reverse().find((l) => getValueAtPath(l.values, path) !== undefined);
+    const source = layer?.path ? `file:${layer.path}` : "file";
+    tried.push(source);
+    return { value, source };
+  },
+
+  initial(path, _meta, ctx, tried) {
+    const value = getValueAtPath(ctx.initialValues, path);
+    if (value === undefined) return undefined;
+    tried.push("initial");
+    return { value, source: "initial" };
+  },
+
+  derived(path, meta, ctx, tried) {
+    if (meta?.derive === undefined) return undefined;
+    const derived = deriveValue(meta.derive, path, ctx);
+    const source = `derived(${derived.inputs.join(", ")})`;
+    if (derived.error === undefined && derived.value === undefined) return undefined;
+    tried.push(source);
+    return { value: derived.value, source, error: derived.error, sensitive: derived.sensitive };
+  },
+
+  default(_path, meta, _ctx, tried) {
+    if (meta?.default === undefined) return undefined;
+    const source = meta.defaultSource ?? "default";
+    tried.push(source);
+    return { value: meta.default, source };
+  },
+};
+
+/** Read the field's key from a custom source; a source that throws fails the field */
+const lookupCustom: SourceLookup = (path, meta, ctx, tried, name) => {
+  const key = meta?.sourceKeys?.[name];
+  const source = ctx.customSources.get(name)!;
+  if (key === undefined) return undefined;
+  const label = `${name}:${typeof key === "string" ? key : JSON.stringify(key)}`;
+  tried.push(label);
+  try {
+    const value = ctx.readSource(source, key, { path: path.join("."), profile: ctx.profile, env: ctx.env });
+    return value !== undefined ? { value, source: label, sensitive: source.sensitive } : undefined;
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return { value: undefined, source: label, error: `source '${name}' failed: ${message}`, sensitive: source.sensitive };
+  }
+};
+
+function readSourceSync(source: ValueSource, key: unknown, context: SourceContext): unknown {
+  const value = source.read(key, context);
+  if (value instanceof Promise) {
+    // Nothing will await it, so keep a rejection from going unhandled
+    value.catch(() => undefined);
+    throw new Error("it is asynchronous; use resolveAsync() instead");
+  }
+  return value;
+}
+
+/** Registered sources, with those passed to `resolve()` added or replacing them by name */
+function collectSources(extra: ValueSource[] = []): Map<string, ValueSource> {
+  extra.forEach((source) => assertSourceName(source.name));
+  return new Map([...getRegisteredSources(), ...extra].map((source) => [source.name, source]));
+}
+
+/** Built-in order with each custom source inserted at its position */
+function buildDefaultOrder(customSources: Map<string, ValueSource>): SourceName[] {
+  const order: string[] = [...DEFAULT_SOURCE_ORDER];
+  for (const source of customSources.values()) {
+    const anchor = source.before ?? source.after ?? CUSTOM_SOURCE_POSITION;
+    const index = order.indexOf(anchor);
+    if (index === -1) {
+      throw new ConfigError(
+        `Unknown source '${anchor}' to place '${source.name}' ${source.before !== undefined ? "before" : "after"}`,
+        "",
+        false
+      );
+    }
+    order.splice(source.before !== undefined ? index : index + 1, 0, source.name);
+  }
+  return order as SourceName[];
+}
+
+/** Complete a partial source order: unlisted sources keep their default relative priority */
+function normalizeSourceOrder(order: SourceName[], path: string, defaultOrder: SourceName[]): SourceName[] {
+  for (const name of order) {
+    if (!defaultOrder.includes(name)) {
+      throw new ConfigError(
+        `Unknown source '${name}' in sourceOrder${path ? ` at '${path}'` : ""}. Known sources: ${defaultOrder.join(", ")}`,
+        path,
+        false
+      );
+    }
+  }
+  const listed = [...new Set(order)];
+  return [...listed, ...defaultOrder.filter((name) => !listed.includes(name))];
+}
+
+function redactValue(schema: ZodTypeAny, value: unknown, sensitivePaths: Set<string>, path: string[] = []): unknown {
+  const branch = getActiveBranch(schema, value);
+  if (branch) return redactValue(branch, value, sensitivePaths, path);
+
   if (isZodObject(schema) && value && typeof value === "object") {
     const result: Record<string, unknown> = {};
     for (const [key, childSchema] of Object.entries(schema.shape)) {
-      result[key] = redactValue(childSchema, (value as Record<string, unknown>)[key]);
+      result[key] = redactValue(childSchema, (value as Record<string, unknown>)[key], sensitivePaths, [...path, key]);
     }
     return result;
   }
 
-  const meta = getMeta(schema);
-  if (meta?.sensitive) {
+  const elementSchema = getObjectArrayElement(schema);
+  if (elementSchema && Array.isArray(value)) {
+    return value.map((item, i) => redactValue(elementSchema, item, sensitivePaths, [...path, String(i)]));
+  }
+
+  // Record entries are resolved as single values, even when they are objects
+  if (getRecordValueType(schema) && isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        sensitivePaths.has([...path, key].join(".")) ? "[REDACTED]" : item,
+      ])
+    );
+  }
+
+  if (sensitivePaths.has(path.join("."))) {
     return "[REDACTED]";
   }
 
@@ -241,8 +1374,13 @@ function buildConfigDebugObject(
   schema: ZodTypeAny,
   value: unknown,
   sources: Record<string, ConfigSource>,
+  derivedEnv: Record<string, string>,
+  sensitivePaths: Set<string>,
   path: string[] = []
 ): unknown {
+  const branch = getActiveBranch(schema, value);
+  if (branch) return buildConfigDebugObject(branch, value, sources, derivedEnv, sensitivePaths, path);
+
   if (isZodObject(schema) && value && typeof value === "object") {
     const result: Record<string, unknown> = {};
     for (const [key, childSchema] of Object.entries(schema.shape)) {
@@ -250,47 +1388,69 @@ function buildConfigDebugObject(
         childSchema,
         (value as Record<string, unknown>)[key],
         sources,
+        derivedEnv,
+        sensitivePaths,
         [...path, key]
       );
     }
     return result;
   }
 
-  if (isZodLiteral(schema)) {
-    return { value, source: "literal" };
+  const elementSchema = getObjectArrayElement(schema);
+  if (elementSchema && Array.isArray(value)) {
+    return value.map((item, i) =>
+      buildConfigDebugObject(elementSchema, item, sources, derivedEnv, sensitivePaths, [...path, String(i)])
+    );
   }
 
-  const pathStr = path.join(".");
-  const meta = getMeta(schema);
-  const displayValue = meta?.sensitive ? "[REDACTED]" : value;
+  // Record entries are resolved as single values, even when they are objects
+  if (getRecordValueType(schema) && isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        debugEntry(item, [...path, key].join("."), sources, derivedEnv, sensitivePaths),
+      ])
+    );
+  }
 
-  return { value: displayValue, source: sources[pathStr] };
-}
+  // A branch's discriminator is a literal in the schema, but resolved from sources
+  if (isZodLiteral(schema) && !Object.hasOwn(sources, path.join("."))) {
+    return { value, source: "literal" };
+  }
 
-function isZodObject(schema: ZodTypeAny): schema is ZodObject<Record<string, ZodTypeAny>> {
-  return getDefType(schema) === "object";
+  return debugEntry(value, path.join("."), sources, derivedEnv, sensitivePaths);
 }
 
-function isZodLiteral(schema: ZodTypeAny): boolean {
-  return getDefType(schema) === "literal";
+function debugEntry(
+  value: unknown,
+  pathStr: string,
+  sources: Record<string, ConfigSource>,
+  derivedEnv: Record<string, string>,
+  sensitivePaths: Set<string>
+): unknown {
+  const displayValue = sensitivePaths.has(pathStr) ? "[REDACTED]" : value;
+  const env = derivedEnv[pathStr];
+
+  return { value: displayValue, source: sources[pathStr], ...(env !== undefined && { env }) };
 }
 
-function getLiteralValue(schema: ZodTypeAny): unknown {
-  return (schema._zod?.def as { values?: unknown[] } | undefined)?.values?.[0];
+function mergeLayers(layers: FileLayer[]): Record<string, unknown> | undefined {
+  if (layers.length === 0) return undefined;
+  return layers.reduce<Record<string, unknown>>((merged, layer) => deepMerge(merged, layer.values), {});
 }
 
-function getMeta(schema: ZodTypeAny): KeyMeta | undefined {
-  const meta = schema.meta?.();
-  if (!meta || typeof meta !== "object") return undefined;
-  const { env, secretFile, sensitive, default: defaultValue } = meta as Record<string, unknown>;
-  if (env === undefined && secretFile === undefined && sensitive === undefined && defaultValue === undefined) {
-    return undefined;
+/** Merge plain objects recursively; arrays and other values from `source` replace those in `target` */
+function deepMerge(target: Record<string, unknown>, source: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    const existing = result[key];
+    result[key] = isPlainObject(existing) && isPlainObject(value) ? deepMerge(existing, value) : value;
   }
-  return { env, secretFile, sensitive, default: defaultValue } as KeyMeta;
+  return result;
 }
 
-function getDefType(schema: ZodTypeAny): string | undefined {
-  return (schema._zod?.def as { type?: string } | undefined)?.type;
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
 function getValueAtPath(obj: unknown, path: string[]): unknown {
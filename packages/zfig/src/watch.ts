@@ -0,0 +1,205 @@
+import { watch as watchFs, type FSWatcher } from "node:fs";
+import { basename, dirname, resolve as resolvePath } from "node:path";
+import { resolveAsync, type ResolveOptions } from "./resolve";
+import { getSources } from "./values";
+import { ConfigError } from "./errors";
+import { DiagnosticsCollector } from "./diagnostics";
+import type { ZfigSchema, ResolvedConfig } from "./types";
+
+export interface WatchOptions extends ResolveOptions {
+  /** Delay before re-resolving after a file change, in milliseconds (default: 100) */
+  debounceMs?: number;
+}
+
+export interface ConfigChange<S> {
+  previous: ResolvedConfig<S>;
+  current: ResolvedConfig<S>;
+  changedPaths: string[];
+}
+
+export interface ConfigWatcher<S> {
+  /** Latest successfully resolved config */
+  readonly current: ResolvedConfig<S>;
+  onChange(listener: (change: ConfigChange<S>) => void): () => void;
+  onError(listener: (error: ConfigError) => void): () => void;
+  /** Re-resolve now, without waiting for a file change */
+  reload(): Promise<void>;
+  close(): void;
+}
+
+/**
+ * Resolve the config and keep it up to date: whenever the config file or a
+ * secret file read during resolution changes on disk, the schema is resolved
+ * again and, if valid, swapped in. Invalid edits keep the previous config.
+ */
+export async function watch<S extends ZfigSchema<Record<string, unknown>>>(
+  schema: S,
+  options: WatchOptions = {}
+): Promise<ConfigWatcher<S>> {
+  const { debounceMs = 100, ...resolveOptions } = options;
+  const changeListeners = new Set<(change: ConfigChange<S>) => void>();
+  const errorListeners = new Set<(error: ConfigError) => void>();
+  const dirWatchers = new Map<string, FSWatcher>();
+
+  const resolveTracked = async (collector?: DiagnosticsCollector) => {
+    const files = new Set<string>();
+    const config = await resolveAsync(schema, {
+      ...resolveOptions,
+      _trackFile: (path) => files.add(resolvePath(path)),
+      _collector: collector,
+    });
+    return { config, files };
+  };
+
+  const initial = await resolveTracked();
+  let current = initial.config;
+  let trackedFiles = initial.files;
+
+  let closed = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running: Promise<void> | undefined;
+  let rerun = false;
+
+  const reloadOnce = async () => {
+    const collector = new DiagnosticsCollector();
+    let next: Awaited<ReturnType<typeof resolveTracked>>;
+    try {
+      next = await resolveTracked(collector);
+    } catch (e) {
+      if (closed) return;
+      const error =
+        e instanceof ConfigError
+          ? e
+          : new ConfigError(
+              `Config reload failed: ${e instanceof Error ? e.message : String(e)}`,
+              "",
+              false,
+              collector.getEvents()
+            );
+      notify(errorListeners, error);
+      return;
+    }
+    if (closed) return;
+
+    const previous = current;
+    current = next.config;
+    trackedFiles = next.files;
+    syncWatchers();
+
+    const changedPaths = diffConfigs(previous, current);
+    if (changedPaths.length > 0) {
+      notify(changeListeners, { previous, current, changedPaths });
+    }
+  };
+
+  const reload = async (): Promise<void> => {
+    if (running) {
+      rerun = true;
+      return running;
+    }
+    running = (async () => {
+      do {
+        rerun = false;
+        await reloadOnce();
+      } while (rerun && !closed);
+    })();
+    try {
+      await running;
+    } finally {
+      running = undefined;
+    }
+  };
+
+  const scheduleReload = () => {
+    if (closed) return;
+    clearTimeout(timer);
+    timer = setTimeout(() => void reload(), debounceMs);
+  };
+
+  // Watch parent directories rather than the files themselves, so files that
+  // are replaced atomically, or don't exist yet, are still picked up.
+  const syncWatchers = () => {
+    const dirs = new Set([...trackedFiles].map((file) => dirname(file)));
+
+    for (const [dir, watcher] of dirWatchers) {
+      if (!dirs.has(dir)) {
+        watcher.close();
+        dirWatchers.delete(dir);
+      }
+    }
+
+    for (const dir of dirs) {
+      if (dirWatchers.has(dir)) continue;
+      try {
+        const watcher = watchFs(dir, (_event, filename) => {
+          if (!filename || trackedFiles.has(resolvePath(dir, basename(filename.toString())))) {
+            scheduleReload();
+          }
+        });
+        watcher.on("error", () => {
+          watcher.close();
+          dirWatchers.delete(dir);
+        });
+        dirWatchers.set(dir, watcher);
+      } catch {
+        // Directory doesn't exist (yet); it is retried on the next reload
+      }
+    }
+  };
+
+  syncWatchers();
+
+  return {
+    get current() {
+      return current;
+    },
+    onChange(listener) {
+      changeListeners.add(listener);
+      return () => changeListeners.delete(listener);
+    },
+    onError(listener) {
+      errorListeners.add(listener);
+      return () => errorListeners.delete(listener);
+    },
+    reload,
+    close() {
+      closed = true;
+      clearTimeout(timer);
+      for (const watcher of dirWatchers.values()) watcher.close();
+      dirWatchers.clear();
+      changeListeners.clear();
+      errorListeners.clear();
+    },
+  };
+}
+
+/** Call every listener; one that throws neither stops the others nor fails the reload */
+function notify<T>(listeners: Set<(value: T) => void>, value: T): void {
+  for (const listener of listeners) {
+    try {
+      listener(value);
+    } catch {
+      // Reloads started by a file change have no caller to report to
+    }
+  }
+}
+
+function diffConfigs(previous: unknown, current: unknown): string[] {
+  const paths = new Set([...Object.keys(getSources(previous) ?? {}), ...Object.keys(getSources(current) ?? {})]);
+  return [...paths].filter(
+    (path) => !isDeepEqual(getValueAtPath(previous, path), getValueAtPath(current, path))
+  );
+}
+
+function getValueAtPath(obj: unknown, path: string): unknown {
+  let value = obj;
+  for (const key of path.split(".")) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { coerceString } from "../src/coerce";
+
+describe("coerceString()", () => {
+  it("passes strings through", () => {
+    expect(coerceString(z.string(), " a ")).toEqual({ value: " a " });
+    expect(coerceString(z.string().transform((s) => s.length), "abc")).toEqual({ value: "abc" });
+  });
+
+  it("parses numbers strictly", () => {
+    expect(coerceString(z.number(), "8080")).toEqual({ value: 8080 });
+    expect(coerceString(z.number(), "-1.5e3")).toEqual({ value: -1500 });
+    expect(coerceString(z.number().int(), " 42 ")).toEqual({ value: 42 });
+    expect(coerceString(z.number(), "")).toEqual({ error: "expected a number" });
+    expect(coerceString(z.number(), "12px")).toEqual({ error: "expected a number" });
+    expect(coerceString(z.number(), "0x10")).toEqual({ error: "expected a number" });
+    expect(coerceString(z.bigint(), "9007199254740993")).toEqual({ value: 9007199254740993n });
+  });
+
+  it("accepts true/false, 1/0 and yes/no for booleans", () => {
+    for (const raw of ["true", "TRUE", "1", "yes", "Yes"]) expect(coerceString(z.boolean(), raw)).toEqual({ value: true });
+    for (const raw of ["false", "0", "no", "NO"]) expect(coerceString(z.boolean(), raw)).toEqual({ value: false });
+    expect(coerceString(z.coerce.boolean(), "false")).toEqual({ value: false });
+    expect(coerceString(z.boolean(), "on")).toEqual({ error: "expected true/false, 1/0 or yes/no" });
+  });
+
+  it("reads arrays from JSON or comma-separated items", () => {
+    expect(coerceString(z.array(z.string()), "a, b,c")).toEqual({ value: ["a", "b", "c"] });
+    expect(coerceString(z.array(z.number()), "[1, 2]")).toEqual({ value: [1, 2] });
+    expect(coerceString(z.array(z.number()), "1,2,3")).toEqual({ value: [1, 2, 3] });
+    expect(coerceString(z.array(z.number()), "")).toEqual({ value: [] });
+    expect(coerceString(z.array(z.number()), "1,x")).toEqual({ error: "item 1: expected a number" });
+    expect(coerceString(z.array(z.number()), "[1,")).toEqual({ error: "invalid JSON array" });
+  });
+
+  it("reads objects and records from JSON or key=value pairs", () => {
+    const limits = z.object({ max: z.number(), strict: z.boolean() });
+    expect(coerceString(limits, '{"max":5,"strict":true}')).toEqual({ value: { max: 5, strict: true } });
+    expect(coerceString(limits, "max=5, strict=yes")).toEqual({ value: { max: 5, strict: true } });
+    expect(coerceString(z.record(z.string(), z.number()), "a=1,b=2")).toEqual({ value: { a: 1, b: 2 } });
+    expect(coerceString(limits, "max")).toEqual({ error: "expected JSON or key=value pairs, got 'max'" });
+    expect(coerceString(limits, "max=many")).toEqual({ error: "key 'max': expected a number" });
+  });
+
+  it("matches enum and literal options, ignoring case as a fallback", () => {
+    const level = z.enum(["debug", "info", "warn"]);
+    expect(coerceString(level, "info")).toEqual({ value: "info" });
+    expect(coerceString(level, "WARN")).toEqual({ value: "warn" });
+    expect(coerceString(level, "trace")).toEqual({ error: "expected one of debug, info, warn" });
+    expect(coerceString(z.literal(3), "3")).toEqual({ value: 3 });
+  });
+
+  it("parses dates from ISO strings or epoch milliseconds", () => {
+    expect(coerceString(z.date(), "2024-01-02T03:04:05Z")).toEqual({ value: new Date("2024-01-02T03:04:05Z") });
+    expect(coerceString(z.date(), "0")).toEqual({ value: new Date(0) });
+    expect(coerceString(z.date(), "yesterday")).toEqual({ error: "expected an ISO date or epoch milliseconds" });
+  });
+
+  it("unwraps optional, default and pipe types", () => {
+    expect(coerceString(z.number().optional(), "1")).toEqual({ value: 1 });
+    expect(coerceString(z.boolean().default(true), "no")).toEqual({ value: false });
+    expect(coerceString(z.number().pipe(z.number().min(0)), "3")).toEqual({ value: 3 });
+  });
+
+  it("picks the first union option that coerces and validates", () => {
+    expect(coerceString(z.union([z.number(), z.boolean()]), "yes")).toEqual({ value: true });
+    expect(coerceString(z.union([z.number(), z.boolean()]), "7")).toEqual({ value: 7 });
+    expect(coerceString(z.union([z.string(), z.number()]), "7")).toEqual({ value: "7" });
+  });
+});
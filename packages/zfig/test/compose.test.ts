@@ -0,0 +1,115 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { schema, field } from "../src/schema";
+import { extend, merge, pick, omit, partial } from "../src/compose";
+import { resolveValues, getSources } from "../src/values";
+import { ConfigError } from "../src/errors";
+
+describe("schema composition", () => {
+  const logging = schema({
+    level: field({ type: z.enum(["debug", "info"]), env: "LOG_LEVEL", default: "info" }),
+    token: field({ type: z.string(), env: "LOG_TOKEN", sensitive: true }),
+  });
+  const tracing = schema({ endpoint: field({ type: z.string() }), rate: field({ type: z.number() }) }, { envPrefix: "OTEL_" });
+  const base = schema({ name: "svc", port: field({ type: z.number(), env: "PORT" }) }, { envPrefix: "APP_" });
+
+  describe("extend()", () => {
+    it("adds keys and keeps the base's fields and naming options", () => {
+      const s = extend(base, { logging, host: field({ type: z.string() }) });
+      const config = resolveValues(s, { env: { PORT: "80", LOG_TOKEN: "tok", APP_HOST: "example.com" } });
+      expect(config).toEqual({ name: "svc", port: 80, host: "example.com", logging: { level: "info", token: "tok" } });
+      expect(config.toString()).toContain("[REDACTED]");
+    });
+
+    it("replaces existing keys", () => {
+      const s = extend(base, { port: field({ type: z.string(), default: "auto" }) });
+      expect(resolveValues(s, { env: {} }).port).toBe("auto");
+    });
+
+    it("checks derived names of the added keys", () => {
+      const s = schema({ db: { host: field({ type: z.string() }) } }, { envPrefix: "APP_", envNaming: "flat" });
+      expect(() => extend(s, { dbHost: field({ type: z.string() }) })).toThrow("Derived env var names collide");
+    });
+  });
+
+  describe("merge()", () => {
+    it("combines keys, with the second schema's naming options winning", () => {
+      const s = merge(base, tracing);
+      const config = resolveValues(s, { env: { PORT: "80", OTEL_ENDPOINT: "http://otel", OTEL_RATE: "0.5" } });
+      expect(config).toEqual({ name: "svc", port: 80, endpoint: "http://otel", rate: 0.5 });
+    });
+  });
+
+  describe("refinements", () => {
+    const ordered = schema(
+      { min: field({ type: z.number(), default: 5 }), max: field({ type: z.number(), default: 1 }) },
+      { refine: [{ check: (c) => c.min <= c.max, message: "min must not exceed max", paths: ["min"] }] }
+    );
+
+    it("are kept by extend() and merge()", () => {
+      expect(() => resolveValues(extend(ordered, { name: "svc" }), { env: {} })).toThrow("min must not exceed max");
+      expect(() => resolveValues(merge(base, ordered), { env: { PORT: "80" } })).toThrow("min must not exceed max");
+    });
+
+    it("are dropped by pick(), omit() and partial()", () => {
+      expect(resolveValues(pick(ordered, ["min"]), { env: {} })).toEqual({ min: 5 });
+      expect(resolveValues(omit(ordered, ["max"]), { env: {} })).toEqual({ min: 5 });
+      expect(resolveValues(partial(ordered), { env: {} })).toEqual({ min: 5, max: 1 });
+    });
+  });
+
+  describe("pick() and omit()", () => {
+    const s = extend(base, { logging, tracing });
+
+    it("keeps only the picked keys, with their metadata", () => {
+      const picked = pick(s, ["port", "tracing"]);
+      expect(Object.keys(picked.shape)).toEqual(["port", "tracing"]);
+      const config = resolveValues(picked, { env: { PORT: "80", OTEL_ENDPOINT: "http://otel", OTEL_RATE: "1" } });
+      expect(getSources(config)).toEqual({ port: "env:PORT", "tracing.endpoint": "env:OTEL_ENDPOINT", "tracing.rate": "env:OTEL_RATE" });
+    });
+
+    it("drops omitted keys", () => {
+      const omitted = omit(s, ["tracing", "logging"]);
+      expect(resolveValues(omitted, { env: { PORT: "80" } })).toEqual({ name: "svc", port: 80 });
+    });
+
+    it("rejects unknown keys", () => {
+      // @ts-expect-error unknown key
+      expect(() => pick(s, ["nope"])).toThrow(new ConfigError("Unknown key 'nope' passed to pick()", "nope", false));
+    });
+  });
+
+  describe("partial()", () => {
+    const s = partial(extend(base, { logging, tracing }));
+
+    it("makes every field optional, including nested sections", () => {
+      const config = resolveValues(s, { env: {} });
+      expect(config).toEqual({
+        name: "svc",
+        port: undefined,
+        logging: { level: "info", token: undefined },
+        tracing: { endpoint: undefined, rate: undefined },
+      });
+      expect(getSources(config)?.port).toBe("unset");
+    });
+
+    it("keeps field metadata and section naming options", () => {
+      const config = resolveValues(s, { env: { PORT: "80", LOG_TOKEN: "tok", OTEL_RATE: "0.1" } });
+      expect(config.port).toBe(80);
+      expect(config.tracing?.rate).toBe(0.1);
+      expect(config.toDebugObject().config).toMatchObject({ logging: { token: { value: "[REDACTED]" } } });
+    });
+
+    it("keeps reading arrays of objects and records from env vars", () => {
+      const collections = partial(
+        schema({
+          brokers: field({ type: z.array(z.object({ host: z.string() })), env: "B" }),
+          flags: field({ type: z.record(z.string(), z.boolean()), env: "FLAG" }),
+        })
+      );
+      const config = resolveValues(collections, { env: { B_0_HOST: "kafka", FLAG_NEW_CHECKOUT: "true" } });
+      expect(config).toEqual({ brokers: [{ host: "kafka" }], flags: { newCheckout: true } });
+      expect(resolveValues(collections, { env: {} })).toEqual({ brokers: undefined, flags: undefined });
+    });
+  });
+});
@@ -62,6 +62,22 @@ describe("DiagnosticsCollector", () => {
     expect(collector.getEvents()).toEqual([{ type: "note", message: "file loaded", meta: { path: "./config.json", size: 1024 } }]);
   });
 
+  it("addWarning records event", () => {
+    const collector = new DiagnosticsCollector();
+    collector.addWarning("db.url", "Env var DB_URL for 'db.url' is deprecated");
+    expect(collector.getEvents()).toEqual([
+      { type: "warning", key: "db.url", message: "Env var DB_URL for 'db.url' is deprecated" },
+    ]);
+  });
+
+  it("addBranch records event", () => {
+    const collector = new DiagnosticsCollector();
+    collector.addBranch("mail", "mail.driver", "smtp", ["smtp", "ses"]);
+    expect(collector.getEvents()).toEqual([
+      { type: "branch", key: "mail", discriminator: "mail.driver", picked: "smtp", options: ["smtp", "ses"] },
+    ]);
+  });
+
   it("accumulates multiple events", () => {
     const collector = new DiagnosticsCollector();
     collector.addConfigPath("./config.json", [], "from option");
@@ -70,6 +86,18 @@ describe("DiagnosticsCollector", () => {
     expect(collector.getEvents()).toHaveLength(3);
   });
 
+  it("fork copies events and records independently", () => {
+    const collector = new DiagnosticsCollector();
+    collector.addNote("before");
+    const forked = collector.fork();
+    forked.addNote("after");
+    expect(collector.getEvents()).toEqual([{ type: "note", message: "before" }]);
+    expect(forked.getEvents()).toEqual([
+      { type: "note", message: "before" },
+      { type: "note", message: "after" },
+    ]);
+  });
+
   it("getEvents returns a copy", () => {
     const collector = new DiagnosticsCollector();
     collector.addNote("test");
@@ -177,6 +205,26 @@ describe("sourceDecision events", () => {
     expect(decision?.tried).toContain("override");
   });
 
+  it("tried reflects the effective source order", () => {
+    const s = schema({
+      host: field({ type: z.string(), env: "HOST", secretFile: secretFilePath, default: "fallback", sourceOrder: ["default", "secretFile"] }),
+    });
+    const config = resolveValues(s, { env: {}, sourceOrder: ["file", "env"], fileValues: {} });
+    const events = getDiagnostics(config) ?? [];
+    const decision = events.find((e): e is Extract<DiagnosticEvent, { type: "sourceDecision" }> => e.type === "sourceDecision" && e.key === "host");
+    expect(decision?.picked).toBe("default");
+    expect(decision?.tried).toEqual(["default"]);
+  });
+
+  it("tried lists sources checked before the winner in the configured order", () => {
+    const s = schema({ host: field({ type: z.string(), env: "HOST", secretFile: secretFilePath }) });
+    const config = resolveValues(s, { env: { HOST: "from-env" }, sourceOrder: ["file", "secretFile", "env"] });
+    const events = getDiagnostics(config) ?? [];
+    const decision = events.find((e): e is Extract<DiagnosticEvent, { type: "sourceDecision" }> => e.type === "sourceDecision" && e.key === "host");
+    expect(decision?.picked).toBe(`secretFile:${secretFilePath}`);
+    expect(decision?.tried).toEqual([`secretFile:${secretFilePath}`]);
+  });
+
   it("uses dot notation for nested schemas", () => {
     const s = schema({ db: { host: field({ type: z.string(), env: "DB_HOST" }) } });
     const config = resolveValues(s, { env: { DB_HOST: "localhost" } });
@@ -1,6 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { ConfigError, formatValue } from "../src/errors";
-import type { DiagnosticEvent } from "../src/types";
+import type { ConfigIssue, DiagnosticEvent } from "../src/types";
 
 describe("ConfigError", () => {
   it("stores path and sensitive flag", () => {
@@ -30,6 +30,41 @@ describe("ConfigError", () => {
   });
 });
 
+describe("ConfigError.fromIssues()", () => {
+  const issue = (path: string, sensitive = false): ConfigIssue => ({
+    path,
+    message: `Missing required config at '${path}' (value: undefined)`,
+    sensitive,
+    source: null,
+    tried: [],
+    zodIssues: [],
+  });
+
+  it("uses the issue message directly for a single issue", () => {
+    const err = ConfigError.fromIssues([issue("db.host")]);
+    expect(err.message).toBe("Missing required config at 'db.host' (value: undefined)");
+    expect(err.path).toBe("db.host");
+    expect(err.issues).toHaveLength(1);
+  });
+
+  it("lists every issue and points at the first path", () => {
+    const err = ConfigError.fromIssues([issue("db.host"), issue("db.port")]);
+    expect(err.message).toMatch(/2 errors/);
+    expect(err.message).toContain("'db.host'");
+    expect(err.message).toContain("'db.port'");
+    expect(err.path).toBe("db.host");
+  });
+
+  it("is sensitive when any issue is sensitive", () => {
+    expect(ConfigError.fromIssues([issue("a"), issue("b", true)]).sensitive).toBe(true);
+    expect(ConfigError.fromIssues([issue("a"), issue("b")]).sensitive).toBe(false);
+  });
+
+  it("defaults issues to an empty list", () => {
+    expect(new ConfigError("msg", "key", false).issues).toEqual([]);
+  });
+});
+
 describe("formatValue()", () => {
   it("redacts sensitive values", () => {
     expect(formatValue("secret123", true)).toBe("[REDACTED]");
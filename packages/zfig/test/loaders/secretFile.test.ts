@@ -1,8 +1,12 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
-import { writeFileSync, mkdtempSync, rmdirSync } from "node:fs";
+import { writeFileSync, mkdtempSync, rmdirSync, chmodSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
-import { loadSecretFile } from "../../src/loaders/secretFile";
+import {
+  loadSecretFile,
+  readSecretFile,
+  readSecretFileAsync,
+} from "../../src/loaders/secretFile";
 
 describe("loadSecretFile()", () => {
   let tempDir: string;
@@ -37,3 +41,38 @@ describe("loadSecretFile()", () => {
     expect(loadSecretFile(filePath)).toBe("");
   });
 });
+
+describe("readSecretFile()", () => {
+  let tempDir: string;
+  let filePath: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "zfig-test-"));
+    filePath = join(tempDir, "key");
+    writeFileSync(filePath, Buffer.from([0x00, 0xff, 0x20, 0x0a]));
+    chmodSync(filePath, 0o640);
+  });
+
+  afterAll(() => {
+    rmdirSync(tempDir, { recursive: true });
+  });
+
+  it("returns raw bytes, size and permission bits", () => {
+    expect(readSecretFile(filePath)).toEqual({ size: 4, mode: 0o640, data: Buffer.from([0x00, 0xff, 0x20, 0x0a]) });
+  });
+
+  it("skips the contents of files over maxSize", () => {
+    expect(readSecretFile(filePath, 3)).toEqual({ size: 4, mode: 0o640 });
+    expect(readSecretFile(filePath, 4)?.data).toHaveLength(4);
+  });
+
+  it("returns undefined when file not found", () => {
+    expect(readSecretFile("/nonexistent/path/to/secret")).toBeUndefined();
+  });
+
+  it("matches the sync reader when async", async () => {
+    expect(await readSecretFileAsync(filePath)).toEqual(readSecretFile(filePath));
+    expect(await readSecretFileAsync(filePath, 3)).toEqual({ size: 4, mode: 0o640 });
+    expect(await readSecretFileAsync("/nonexistent/path/to/secret")).toBeUndefined();
+  });
+});
@@ -1,10 +1,21 @@
-import { describe, it, expect, beforeAll, afterAll } from "vitest";
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
 import { writeFileSync, mkdtempSync, rmSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { z } from "zod";
 // Import from index to ensure JSON loader is registered
-import { schema, field, resolve, ConfigError } from "../src";
+import {
+  schema,
+  field,
+  resolve,
+  resolveAsync,
+  registerLoader,
+  clearLoaders,
+  getDiagnostics,
+  getSources,
+  ConfigError,
+} from "../src";
+import { loadJson } from "../src/loaders/json";
 
 describe("resolve()", () => {
   let tempDir: string;
@@ -188,3 +199,278 @@ describe("resolve()", () => {
     });
   });
 });
+
+describe("layered config files", () => {
+  let tempDir: string;
+  let basePath: string;
+  let prodPath: string;
+  let localPath: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "zfig-layers-"));
+    basePath = join(tempDir, "base.json");
+    prodPath = join(tempDir, "production.json");
+    localPath = join(tempDir, "local.json");
+    writeFileSync(basePath, '{"db":{"host":"localhost","port":5432,"options":["a"]},"name":"base"}');
+    writeFileSync(prodPath, '{"db":{"host":"prod-db","options":["b","c"]}}');
+    writeFileSync(localPath, '{"name":"local"}');
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true });
+  });
+
+  const s = schema({
+    name: field({ type: z.string() }),
+    db: {
+      host: field({ type: z.string() }),
+      port: field({ type: z.number() }),
+      options: field({ type: z.array(z.string()) }),
+    },
+  });
+
+  it("deep-merges layers with later files winning", () => {
+    const config = resolve(s, { configPath: [basePath, prodPath, localPath], env: {} });
+    expect(config).toEqual({
+      name: "local",
+      db: { host: "prod-db", port: 5432, options: ["b", "c"] },
+    });
+  });
+
+  it("attributes each key to the file that supplied it", () => {
+    const config = resolve(s, { configPath: [basePath, prodPath, localPath], env: {} });
+    expect(getSources(config)).toEqual({
+      name: `file:${localPath}`,
+      "db.host": `file:${prodPath}`,
+      "db.port": `file:${basePath}`,
+      "db.options": `file:${prodPath}`,
+    });
+  });
+
+  it("skips missing optional layers", () => {
+    const missing = join(tempDir, "missing.json");
+    const config = resolve(s, { configPath: [basePath, { path: missing, optional: true }], env: {} });
+    expect(config.name).toBe("base");
+  });
+
+  it("throws when a required layer is missing", () => {
+    const missing = join(tempDir, "missing.json");
+    expect(() => resolve(s, { configPath: [basePath, missing], env: {} })).toThrow(`Config file not found: ${missing}`);
+  });
+
+  it("lists every layer in the configPath diagnostic", () => {
+    const missing = join(tempDir, "missing.json");
+    const config = resolve(s, { configPath: [basePath, prodPath, { path: missing, optional: true }], env: {} });
+    const event = getDiagnostics(config)?.find((e) => e.type === "configPath");
+    expect(event).toMatchObject({
+      picked: prodPath,
+      candidates: [`option:${basePath}`, `option:${prodPath}`, `option:${missing}`],
+      layers: [
+        { path: basePath, optional: false, found: true },
+        { path: prodPath, optional: false, found: true },
+        { path: missing, optional: true, found: false },
+      ],
+    });
+  });
+
+  it("names the layer holding an unknown key in strict mode", () => {
+    const typoPath = join(tempDir, "typo.json");
+    writeFileSync(typoPath, '{"db":{"hots":"typo-db"}}');
+    expect(() => resolve(s, { configPath: [basePath, typoPath], strict: "error", env: {} })).toThrow(
+      `Unknown key 'db.hots' in file:${typoPath}, did you mean 'db.host'?`
+    );
+  });
+
+  it("resolveAsync() merges layers the same way", async () => {
+    const options = { configPath: [basePath, prodPath, localPath], env: {} };
+    const config = await resolveAsync(s, options);
+    expect(config).toEqual(resolve(s, options));
+    expect(getSources(config)).toEqual(getSources(resolve(s, options)));
+  });
+});
+
+describe("configDir discovery", () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "zfig-configdir-"));
+    writeFileSync(join(tempDir, "default.json"), '{"host":"localhost","port":3000,"name":"default"}');
+    writeFileSync(join(tempDir, "production.json"), '{"host":"prod-db","name":"production"}');
+    writeFileSync(join(tempDir, "local.json"), '{"name":"local"}');
+  });
+
+  afterAll(() => {
+    rmSync(tempDir, { recursive: true });
+  });
+
+  const s = schema({
+    host: field({ type: z.string() }),
+    port: field({ type: z.number() }),
+    name: field({ type: z.string() }),
+  });
+
+  it("layers default, profile and local files", () => {
+    const config = resolve(s, { configDir: tempDir, profile: "production", env: {} });
+    expect(config).toEqual({ host: "prod-db", port: 3000, name: "local" });
+    expect(getSources(config)).toEqual({
+      host: `file:${join(tempDir, "production.json")}`,
+      port: `file:${join(tempDir, "default.json")}`,
+      name: `file:${join(tempDir, "local.json")}`,
+    });
+  });
+
+  it("defaults the profile to NODE_ENV", () => {
+    const config = resolve(s, { configDir: tempDir, env: { NODE_ENV: "production" } });
+    expect(config.host).toBe("prod-db");
+  });
+
+  it("skips missing profile files", () => {
+    const config = resolve(s, { configDir: tempDir, profile: "staging", env: {} });
+    expect(config).toEqual({ host: "localhost", port: 3000, name: "local" });
+  });
+
+  it("layers explicit configPath on top of discovered files", () => {
+    const extra = join(tempDir, "extra.json");
+    writeFileSync(extra, '{"port":4000}');
+    const config = resolve(s, { configDir: tempDir, configPath: extra, profile: "production", env: {} });
+    expect(config).toEqual({ host: "prod-db", port: 4000, name: "local" });
+  });
+
+  it("reports every candidate in the configPath diagnostic", () => {
+    registerLoader(".ajson", loadJson);
+    try {
+      const config = resolve(s, { configDir: tempDir, profile: "production", env: {} });
+      const event = getDiagnostics(config)?.find((e) => e.type === "configPath");
+      expect(event?.type === "configPath" && event.layers).toEqual([
+        { path: join(tempDir, "default.json"), optional: true, found: true },
+        { path: join(tempDir, "default.ajson"), optional: true, found: false },
+        { path: join(tempDir, "production.json"), optional: true, found: true },
+        { path: join(tempDir, "production.ajson"), optional: true, found: false },
+        { path: join(tempDir, "local.json"), optional: true, found: true },
+        { path: join(tempDir, "local.ajson"), optional: true, found: false },
+      ]);
+      expect(event?.candidates).toContain(`dir:${join(tempDir, "production.ajson")}`);
+      expect(event?.reason).toContain("profile: production");
+    } finally {
+      clearLoaders();
+      registerLoader(".json", loadJson);
+    }
+  });
+});
+
+describe("resolveAsync()", () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "zfig-async-"));
+    writeFileSync(join(tempDir, "dbpass"), "secret123\n");
+    registerLoader(".ajson", async (path) => loadJson(path));
+  });
+
+  afterAll(() => {
+    registerLoader(".ajson", loadJson);
+    rmSync(tempDir, { recursive: true });
+  });
+
+  it("resolves values from file, env and secret files", async () => {
+    const configPath = join(tempDir, "config.json");
+    writeFileSync(configPath, '{"host":"from-file"}');
+    const s = schema({
+      host: field({ type: z.string() }),
+      port: field({ type: z.coerce.number(), env: "PORT" }),
+      pass: field({ type: z.string(), secretFile: "dbpass" }),
+    });
+    const config = await resolveAsync(s, { configPath, secretsPath: tempDir, env: { PORT: "8080" } });
+    expect(config).toEqual({ host: "from-file", port: 8080, pass: "secret123" });
+  });
+
+  it("awaits async file loaders", async () => {
+    const configPath = join(tempDir, "config.ajson");
+    writeFileSync(configPath, '{"host":"from-async-loader"}');
+    const s = schema({ host: field({ type: z.string() }) });
+    expect(await resolveAsync(s, { configPath, env: {} })).toEqual({ host: "from-async-loader" });
+  });
+
+  it("sync resolve() rejects async loaders", () => {
+    const configPath = join(tempDir, "config.ajson");
+    writeFileSync(configPath, '{"host":"from-async-loader"}');
+    const s = schema({ host: field({ type: z.string() }) });
+    expect(() => resolve(s, { configPath, env: {} })).toThrow(/resolveAsync/);
+  });
+
+  it("sync resolve() leaves no unhandled rejection from a failing async loader", async () => {
+    const configPath = join(tempDir, "broken.ajson");
+    writeFileSync(configPath, "{ not json");
+    const s = schema({ host: field({ type: z.string() }) });
+    const unhandled = vi.fn();
+    process.on("unhandledRejection", unhandled);
+    try {
+      expect(() => resolve(s, { configPath, env: {} })).toThrow(/resolveAsync/);
+      await new Promise((done) => setTimeout(done, 10));
+      expect(unhandled).not.toHaveBeenCalled();
+    } finally {
+      process.off("unhandledRejection", unhandled);
+    }
+  });
+
+  it("produces the same sources and diagnostics as resolve()", async () => {
+    const configPath = join(tempDir, "parity.json");
+    writeFileSync(configPath, '{"db":{"host":"from-file"}}');
+    const s = schema({
+      db: {
+        host: field({ type: z.string(), env: "DB_HOST" }),
+        pass: field({ type: z.string(), secretFile: "dbpass", sensitive: true }),
+        user: field({ type: z.string(), secretFile: "missing", default: "admin" }),
+      },
+    });
+    const options = { configPath, secretsPath: tempDir, env: {} };
+    const sync = resolve(s, options);
+    const async = await resolveAsync(s, options);
+    expect(async).toEqual(sync);
+    expect(getSources(async)).toEqual(getSources(sync));
+    expect(getDiagnostics(async)).toEqual(getDiagnostics(sync));
+  });
+
+  it("rejects with the same ConfigError as resolve()", async () => {
+    const s = schema({
+      host: field({ type: z.string() }),
+      pass: field({ type: z.string(), secretFile: "missing" }),
+    });
+    const options = { secretsPath: tempDir, env: {} };
+    let syncError: ConfigError | undefined;
+    try {
+      resolve(s, options);
+    } catch (e) {
+      syncError = e as ConfigError;
+    }
+    const asyncError = await resolveAsync(s, options).catch((e: ConfigError) => e);
+    expect(asyncError).toBeInstanceOf(ConfigError);
+    expect((asyncError as ConfigError).message).toBe(syncError!.message);
+    expect((asyncError as ConfigError).issues).toEqual(syncError!.issues);
+    expect((asyncError as ConfigError).diagnostics).toEqual(syncError!.diagnostics);
+  });
+
+  it("reads _FILE env vars without blocking", async () => {
+    const s = schema({ pass: field({ type: z.string(), env: "DB_PASS" }) });
+    const options = { env: { DB_PASS_FILE: join(tempDir, "dbpass") } };
+    const config = await resolveAsync(s, options);
+    expect(config.pass).toBe("secret123");
+    expect(getSources(config)).toEqual(getSources(resolve(s, options)));
+  });
+
+  it("discovers array elements from indexed secret files", async () => {
+    for (const i of [0, 1]) writeFileSync(join(tempDir, `token-${i}`), `token-${i}`);
+    const s = schema({
+      clients: field({ type: z.array(schema({ token: field({ type: z.string(), secretFile: "token-{index}" }) })) }),
+    });
+    const options = { secretsPath: tempDir, env: {} };
+    const async = await resolveAsync(s, options);
+    expect(async.clients).toEqual([{ token: "token-0" }, { token: "token-1" }]);
+    expect(getSources(async)).toEqual(getSources(resolve(s, options)));
+  });
+
+  it("rejects on missing config file", async () => {
+    const s = schema({ key: field({ type: z.string() }) });
+    await expect(resolveAsync(s, { configPath: "/nonexistent/config.json", env: {} })).rejects.toThrow(/not found/);
+  });
+});
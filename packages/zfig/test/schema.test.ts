@@ -108,6 +108,46 @@ describe("schema()", () => {
     expect(s.shape.host.meta()).toMatchObject({ env: "DB_HOST" });
   });
 
+  describe("env naming options", () => {
+    it("throws when derived env var names collide", () => {
+      expect(() =>
+        schema(
+          {
+            db: { poolMax: field({ type: z.number() }), pool: { max: field({ type: z.number() }) } },
+          },
+          { envPrefix: "APP_", envNaming: "flat" }
+        )
+      ).toThrow("Derived env var names collide:\n  - APP_DB_POOL_MAX: db.poolMax, db.pool.max");
+    });
+
+    it("throws when a derived name clashes with an explicit env", () => {
+      expect(() =>
+        schema(
+          { host: field({ type: z.string() }), dbHost: field({ type: z.string(), env: "APP_HOST" }) },
+          { envPrefix: "APP_" }
+        )
+      ).toThrow(/APP_HOST: host, dbHost/);
+    });
+
+    it("allows explicit env names shared between fields", () => {
+      expect(() =>
+        schema(
+          { a: field({ type: z.string(), env: "SHARED" }), b: field({ type: z.string(), env: "SHARED" }) },
+          { envPrefix: "APP_" }
+        )
+      ).not.toThrow();
+    });
+
+    it("keeps nested naming collision-free for camelCase keys", () => {
+      expect(() =>
+        schema(
+          { db: { poolMax: field({ type: z.number() }), pool: { max: field({ type: z.number() }) } } },
+          { envPrefix: "APP_" }
+        )
+      ).not.toThrow();
+    });
+  });
+
   describe("composable schemas", () => {
     it("allows nesting a schema inside another schema", () => {
       const dbSchema = schema({
@@ -0,0 +1,163 @@
+import { describe, it, expect, expectTypeOf, beforeEach } from "vitest";
+import { z } from "zod";
+import {
+  registerSource,
+  getRegisteredSources,
+  clearSources,
+  type ValueSource,
+} from "../src/source-registry";
+import { schema, field } from "../src/schema";
+import { resolveValues, getSources, getDiagnostics } from "../src/values";
+import { resolve, resolveAsync } from "../src/resolve";
+import { ConfigError } from "../src/errors";
+import type { FieldConfig, SourceName } from "../src/types";
+
+declare module "../src/types" {
+  interface CustomFieldSources {
+    vault?: string;
+  }
+}
+
+const kv: Record<string, string> = { "kv/db#password": "s3cret", "kv/db#port": "6432" };
+
+const vault: ValueSource<string> = {
+  name: "vault",
+  read: (key) => kv[key],
+  sensitive: true,
+};
+
+describe("source-registry", () => {
+  beforeEach(() => {
+    clearSources();
+  });
+
+  describe("registerSource", () => {
+    it("registers a source by name", () => {
+      registerSource(vault);
+      expect(getRegisteredSources()).toEqual([vault]);
+    });
+
+    it("overwrites an existing source with the same name", () => {
+      const other: ValueSource = { name: "vault", read: () => "other" };
+      registerSource(vault);
+      registerSource(other);
+      expect(getRegisteredSources()).toEqual([other]);
+    });
+
+    it("rejects built-in source names and field options", () => {
+      expect(() => registerSource({ name: "env", read: () => undefined })).toThrow(
+        new ConfigError("Source name 'env' is reserved", "", false)
+      );
+      expect(() => registerSource({ name: "type", read: () => undefined })).toThrow("is reserved");
+    });
+
+    it("types the field key and source name through CustomFieldSources", () => {
+      expectTypeOf<FieldConfig["vault"]>().toEqualTypeOf<string | undefined>();
+      expectTypeOf<"vault">().toMatchTypeOf<SourceName>();
+    });
+  });
+
+  describe("resolution", () => {
+    const s = schema({
+      db: {
+        password: field({ type: z.string(), env: "DB_PASSWORD", vault: "kv/db#password" }),
+        port: field({ type: z.number(), vault: "kv/db#port", default: 5432 }),
+        user: field({ type: z.string(), vault: "kv/db#user", default: "app" }),
+      },
+    });
+
+    it("reads field keys from a registered source, after secretFile by default", () => {
+      registerSource(vault);
+      const config = resolveValues(s, { env: {} });
+      expect(config.db).toEqual({ password: "s3cret", port: 6432, user: "app" });
+      expect(getSources(config)).toEqual({
+        "db.password": "vault:kv/db#password",
+        "db.port": "vault:kv/db#port",
+        "db.user": "default",
+      });
+      expect(getDiagnostics(config)).toContainEqual({
+        type: "sourceDecision",
+        key: "db.password",
+        picked: "vault:kv/db#password",
+        tried: ["env:DB_PASSWORD", "vault:kv/db#password"],
+      });
+    });
+
+    it("redacts values of sensitive sources", () => {
+      const config = resolveValues(s, { env: {}, sources: [vault] });
+      expect(config.toString()).not.toContain("s3cret");
+      expect(config.toDebugObject().config).toMatchObject({ db: { password: { value: "[REDACTED]" } } });
+    });
+
+    it("places sources with before/after and sourceOrder", () => {
+      const env = { DB_PASSWORD: "from-env" };
+      expect(resolveValues(s, { env, sources: [vault] }).db.password).toBe("from-env");
+      expect(resolveValues(s, { env, sources: [{ ...vault, before: "env" }] }).db.password).toBe("s3cret");
+      expect(resolveValues(s, { env, sources: [vault], sourceOrder: ["vault"] }).db.password).toBe("s3cret");
+      expect(() => resolveValues(s, { env, sources: [{ ...vault, after: "consul" }] })).toThrow(
+        "Unknown source 'consul' to place 'vault' after"
+      );
+    });
+
+    it("lets sources passed to resolve replace registered ones", () => {
+      registerSource({ name: "vault", read: () => "registered" });
+      const config = resolveValues(s, { env: {}, sources: [vault] });
+      expect(config.db.password).toBe("s3cret");
+    });
+
+    it("fails the field when the source throws", () => {
+      const broken: ValueSource = {
+        name: "vault",
+        read: () => {
+          throw new Error("connection refused");
+        },
+      };
+      expect(() => resolveValues(s, { env: {}, sources: [broken] })).toThrow(
+        "Invalid config at 'db.password': source 'vault' failed: connection refused"
+      );
+    });
+
+    it("requires resolveAsync() for async sources", async () => {
+      const agent: ValueSource<string> = { name: "vault", read: async (key) => kv[key] };
+      expect(() => resolve(s, { env: {}, sources: [agent] })).toThrow(
+        "source 'vault' failed: it is asynchronous; use resolveAsync() instead"
+      );
+
+      const config = await resolveAsync(s, { env: {}, sources: [agent] });
+      expect(config.db).toEqual({ password: "s3cret", port: 6432, user: "app" });
+      expect(getSources(config)?.["db.password"]).toBe("vault:kv/db#password");
+    });
+
+    it("reads each key of an async source once, and reports its failures", async () => {
+      const reads: string[] = [];
+      const agent: ValueSource<string> = {
+        name: "vault",
+        read: async (key) => {
+          reads.push(key);
+          if (key === "kv/db#port") throw new Error("permission denied");
+          return kv[key];
+        },
+      };
+      await expect(resolveAsync(s, { env: {}, sources: [agent] })).rejects.toThrow(
+        "Invalid config at 'db.port': source 'vault' failed: permission denied"
+      );
+      expect(reads.sort()).toEqual(["kv/db#password", "kv/db#port", "kv/db#user"]);
+    });
+
+    it("reads keys answered synchronously once as well", async () => {
+      const reads: string[] = [];
+      const mixed: ValueSource<string> = {
+        name: "vault",
+        read: (key) => {
+          reads.push(key);
+          if (key === "kv/db#user") throw new Error("permission denied");
+          return key === "kv/db#port" ? Promise.resolve(kv[key]) : kv[key];
+        },
+      };
+      await expect(resolveAsync(s, { env: {}, sources: [mixed] })).rejects.toThrow(
+        "Invalid config at 'db.user': source 'vault' failed: permission denied"
+      );
+      expect(reads.sort()).toEqual(["kv/db#password", "kv/db#port", "kv/db#user"]);
+    });
+  });
+});
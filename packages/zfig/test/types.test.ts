@@ -1,6 +1,6 @@
 import { describe, it, expect, expectTypeOf } from "vitest";
 import { z } from "zod";
-import { schema, field } from "../src/schema";
+import { schema, field, discriminated } from "../src/schema";
 import { resolve } from "../src/resolve";
 import type { InferSchema } from "../src/types";
 
@@ -40,11 +40,19 @@ describe("type inference", () => {
 
     it("infers optional from z.string().optional()", () => {
       const s = schema({ name: field({ type: z.string().optional() }) });
-      expectTypeOf<InferSchema<typeof s>>().toMatchTypeOf<{
-        name: string | undefined;
+      expectTypeOf<InferSchema<typeof s>>().toEqualTypeOf<{
+        name?: string | undefined;
       }>();
     });
 
+    it("keeps nullable and Zod-defaulted fields required", () => {
+      const s = schema({
+        proxy: field({ type: z.string().nullable() }),
+        retries: field({ type: z.number().default(3) }),
+      });
+      expectTypeOf<InferSchema<typeof s>>().toEqualTypeOf<{ proxy: string | null; retries: number }>();
+    });
+
     it("infers array from z.array()", () => {
       const s = schema({ tags: field({ type: z.array(z.string()) }) });
       expectTypeOf<InferSchema<typeof s>>().toMatchTypeOf<{ tags: string[] }>();
@@ -92,6 +100,45 @@ describe("type inference", () => {
     });
   });
 
+  describe("raw Zod types and schema() sections", () => {
+    it("infers raw Zod types", () => {
+      const s = schema({
+        port: z.number(),
+        tags: z.array(z.string()),
+        proxy: z.string().optional(),
+      });
+      expectTypeOf<InferSchema<typeof s>>().toEqualTypeOf<{ port: number; tags: string[]; proxy?: string | undefined }>();
+    });
+
+    it("infers fields of an embedded schema()", () => {
+      const db = schema({ host: field({ type: z.string() }), port: 5432 }, { envPrefix: "DB_" });
+      const s = schema({ db, name: z.string() });
+      expectTypeOf<InferSchema<typeof s>>().toEqualTypeOf<{ db: { host: string; port: 5432 }; name: string }>();
+    });
+  });
+
+  describe("conditional fields", () => {
+    it("infers requiredWhen fields as optional", () => {
+      const s = schema({
+        driver: field({ type: z.enum(["smtp", "log"]) }),
+        password: field({ type: z.string(), requiredWhen: { key: "driver", equals: "smtp" } }),
+      });
+      expectTypeOf<InferSchema<typeof s>>().toEqualTypeOf<{ driver: "smtp" | "log"; password?: string | undefined }>();
+    });
+
+    it("infers discriminated sections as a union of branches", () => {
+      const s = schema({
+        mail: discriminated("driver", {
+          smtp: { host: field({ type: z.string() }) },
+          ses: schema({ region: field({ type: z.string() }) }),
+        }),
+      });
+      expectTypeOf<InferSchema<typeof s>>().toEqualTypeOf<{
+        mail: { driver: "smtp"; host: string } | { driver: "ses"; region: string };
+      }>();
+    });
+  });
+
   describe("resolve() return type", () => {
     it("returns correctly typed config", () => {
       const s = schema({
@@ -1,11 +1,15 @@
 import { describe, it, expect, beforeAll, afterAll } from "vitest";
-import { writeFileSync, mkdtempSync, rmSync } from "node:fs";
+import { writeFileSync, mkdtempSync, mkdirSync, rmSync, chmodSync } from "node:fs";
 import { join } from "node:path";
 import { tmpdir } from "node:os";
 import { z } from "zod";
-import { schema, field } from "../src/schema";
+import { schema, field, discriminated, byProfile } from "../src/schema";
 import { resolveValues, getSources } from "../src/values";
 import { ConfigError } from "../src/errors";
+import type { DiagnosticEvent, SecretOptions } from "../src/types";
+
+const warnings = (config: { getDiagnostics(): DiagnosticEvent[] | undefined }) =>
+  config.getDiagnostics()?.filter((e) => e.type === "warning");
 
 describe("resolveValues()", () => {
   let tempDir: string;
@@ -108,6 +112,690 @@ describe("resolveValues()", () => {
     });
   });
 
+  describe("sourceOrder", () => {
+    it("lets file values beat env vars globally", () => {
+      const s = schema({ host: field({ type: z.string(), env: "HOST" }) });
+      const config = resolveValues(s, {
+        fileValues: { host: "from-file" },
+        env: { HOST: "from-env" },
+        sourceOrder: ["override", "file", "env"],
+      });
+      expect(config).toEqual({ host: "from-file" });
+      expect(getSources(config)?.host).toBe("file");
+    });
+
+    it("lets secret files beat env vars per field", () => {
+      const s = schema({
+        pass: field({ type: z.string(), env: "PASS", secretFile: secretFilePath, sourceOrder: ["secretFile", "env"] }),
+        user: field({ type: z.string(), env: "USER", default: "admin" }),
+      });
+      const config = resolveValues(s, { env: { PASS: "from-env", USER: "from-env" } });
+      expect(config).toEqual({ pass: "file-secret", user: "from-env" });
+    });
+
+    it("field sourceOrder overrides the global order", () => {
+      const s = schema({
+        a: field({ type: z.string(), env: "A", sourceOrder: ["env"] }),
+        b: field({ type: z.string(), env: "B" }),
+      });
+      const config = resolveValues(s, {
+        fileValues: { a: "file-a", b: "file-b" },
+        env: { A: "env-a", B: "env-b" },
+        sourceOrder: ["file"],
+      });
+      expect(config).toEqual({ a: "env-a", b: "file-b" });
+    });
+
+    it("keeps unlisted sources in their default relative order", () => {
+      const s = schema({ val: field({ type: z.string(), env: "VAL", default: "default" }) });
+      expect(resolveValues(s, { env: {}, sourceOrder: ["default"] })).toEqual({ val: "default" });
+      expect(resolveValues(s, { env: { VAL: "env" }, sourceOrder: ["default"] })).toEqual({ val: "default" });
+      expect(resolveValues(s, { env: {}, initialValues: { val: "initial" }, sourceOrder: ["default"] })).toEqual({ val: "default" });
+    });
+
+    it("throws on unknown source names", () => {
+      const s = schema({ val: field({ type: z.string(), default: "x" }) });
+      expect(() => resolveValues(s, { env: {}, sourceOrder: ["vault" as never] })).toThrow(/Unknown source 'vault'/);
+    });
+  });
+
+  describe("secretOptions", () => {
+    const pem = "-----BEGIN KEY-----\nabc\n-----END KEY-----\n";
+
+    beforeAll(() => {
+      writeFileSync(join(tempDir, "key.pem"), pem, { mode: 0o600 });
+      writeFileSync(join(tempDir, "keystore.b64"), `${Buffer.from([1, 2, 255]).toString("base64")}\n`, { mode: 0o600 });
+      writeFileSync(join(tempDir, "keystore.bin"), Buffer.from([0, 10, 32]), { mode: 0o600 });
+      writeFileSync(join(tempDir, "bad.b64"), "not base64!", { mode: 0o600 });
+      writeFileSync(join(tempDir, "shared"), "open", { mode: 0o644 });
+      chmodSync(join(tempDir, "shared"), 0o644);
+    });
+
+    const field$ = (secretFile: string, secretOptions: SecretOptions, type: z.ZodType = z.string()) =>
+      schema({ value: field({ type, secretFile, secretOptions }) });
+
+    it("keeps whitespace when trim is off", () => {
+      const config = resolveValues(field$("key.pem", { trim: false }), { env: {}, secretsPath: tempDir });
+      expect(config.value).toBe(pem);
+    });
+
+    it("decodes base64 and returns raw bytes as Buffers", () => {
+      const buffer = z.instanceof(Buffer);
+      const b64 = resolveValues(field$("keystore.b64", { encoding: "base64" }, buffer), { env: {}, secretsPath: tempDir });
+      expect(b64.value).toEqual(Buffer.from([1, 2, 255]));
+      const raw = resolveValues(field$("keystore.bin", { encoding: "buffer" }, buffer), { env: {}, secretsPath: tempDir });
+      expect(raw.value).toEqual(Buffer.from([0, 10, 32]));
+    });
+
+    it("rejects invalid base64", () => {
+      expect(() =>
+        resolveValues(field$("bad.b64", { encoding: "base64" }, z.instanceof(Buffer)), { env: {}, secretsPath: tempDir })
+      ).toThrow(`Invalid config at 'value': secret file ${join(tempDir, "bad.b64")} is not valid base64`);
+    });
+
+    it("rejects files over maxSize without reading them", () => {
+      expect(() => resolveValues(field$("key.pem", { maxSize: 10 }), { env: {}, secretsPath: tempDir })).toThrow(
+        `secret file ${join(tempDir, "key.pem")} is ${pem.length} bytes, over the 10 byte limit`
+      );
+    });
+
+    it.skipIf(process.platform === "win32")("warns or fails on group- or world-readable files", () => {
+      const shared = join(tempDir, "shared");
+      const warned = resolveValues(field$("shared", { permissions: "warn" }), { env: {}, secretsPath: tempDir });
+      expect(warned.value).toBe("open");
+      expect(warned.getDiagnostics()).toContainEqual({
+        type: "warning",
+        key: "value",
+        message: `Secret file ${shared} is readable by group or others (mode 0644)`,
+      });
+      expect(() => resolveValues(field$("shared", { permissions: "error" }), { env: {}, secretsPath: tempDir })).toThrow(
+        `secret file ${shared} is readable by group or others (mode 0644)`
+      );
+      const strict = resolveValues(field$("key.pem", { permissions: "error" }), { env: {}, secretsPath: tempDir });
+      expect(strict.value).toBe(pem.trim());
+    });
+
+    it("applies to _FILE env vars", () => {
+      const s = schema({
+        key: field({ type: z.instanceof(Buffer), env: "KEY", secretOptions: { encoding: "buffer" } }),
+      });
+      const config = resolveValues(s, { env: { KEY_FILE: join(tempDir, "keystore.bin") } });
+      expect(config.key).toEqual(Buffer.from([0, 10, 32]));
+    });
+  });
+
+  describe("_FILE env vars", () => {
+    const s = schema({
+      password: field({ type: z.string(), env: "DB_PASSWORD", sensitive: true }),
+      port: field({ type: z.number(), env: "DB_PORT", default: 5432 }),
+    });
+
+    beforeAll(() => {
+      writeFileSync(join(tempDir, "db-password"), "s3cret\n");
+      writeFileSync(join(tempDir, "db-port"), "6543");
+    });
+
+    it("reads the file the _FILE var points at", () => {
+      const passwordFile = join(tempDir, "db-password");
+      const config = resolveValues(s, {
+        env: { DB_PASSWORD_FILE: passwordFile, DB_PORT_FILE: join(tempDir, "db-port") },
+      });
+      expect(config).toEqual({ password: "s3cret", port: 6543 });
+      expect(getSources(config)?.password).toBe(`envFile:DB_PASSWORD_FILE -> ${passwordFile}`);
+      const decision = config.getDiagnostics()?.find((e) => e.type === "sourceDecision" && e.key === "password");
+      expect(decision).toMatchObject({ tried: ["env:DB_PASSWORD", `envFile:DB_PASSWORD_FILE -> ${passwordFile}`] });
+    });
+
+    it("rejects setting both the var and its _FILE variant", () => {
+      expect(() =>
+        resolveValues(s, { env: { DB_PASSWORD: "a", DB_PASSWORD_FILE: join(tempDir, "db-password") } })
+      ).toThrow("Invalid config at 'password': both DB_PASSWORD and DB_PASSWORD_FILE are set; unset one of them");
+    });
+
+    it("fails when the file can't be read", () => {
+      expect(() => resolveValues(s, { env: { DB_PASSWORD_FILE: "/nonexistent/db-password" } })).toThrow(
+        "DB_PASSWORD_FILE points to /nonexistent/db-password, which can't be read"
+      );
+    });
+
+    it("applies to aliases, array elements and record entries", () => {
+      const nested = schema({
+        url: field({ type: z.string(), env: ["DATABASE_URL", "DB_URL"] }),
+        brokers: field({ type: z.array(schema({ password: field({ type: z.string() }) })), env: "BROKERS" }),
+        tokens: field({ type: z.record(z.string(), z.string()), env: "TOKEN" }),
+      });
+      const file = join(tempDir, "db-password");
+      const config = resolveValues(nested, {
+        env: { DB_URL_FILE: file, BROKERS_0_PASSWORD_FILE: file, TOKEN_GITHUB_FILE: file },
+      });
+      expect(config).toEqual({ url: "s3cret", brokers: [{ password: "s3cret" }], tokens: { github: "s3cret" } });
+      expect(getSources(config)?.["tokens.github"]).toBe(`envFile:TOKEN_GITHUB_FILE -> ${file}`);
+    });
+  });
+
+  describe("env aliases", () => {
+    const s = schema({
+      db: {
+        url: field({ type: z.string(), env: ["DATABASE_URL", { name: "DB_URL", deprecated: true }] }),
+        pool: field({
+          type: z.coerce.number(),
+          env: ["DB_POOL", { name: "POOL_SIZE", deprecated: "POOL_SIZE is removed in v3" }],
+          default: 5,
+        }),
+      },
+    });
+
+    it("tries names in order and records which one won", () => {
+      const config = resolveValues(s, { env: { DATABASE_URL: "postgres://new", DB_URL: "postgres://old" } });
+      expect(config.db.url).toBe("postgres://new");
+      expect(getSources(config)?.["db.url"]).toBe("env:DATABASE_URL");
+      expect(warnings(config)).toEqual([]);
+    });
+
+    it("warns when a deprecated alias supplies the value", () => {
+      const config = resolveValues(s, { env: { DB_URL: "postgres://old", POOL_SIZE: "10" } });
+      expect(config.db).toEqual({ url: "postgres://old", pool: 10 });
+      expect(getSources(config)?.["db.url"]).toBe("env:DB_URL");
+      expect(warnings(config)).toEqual([
+        { type: "warning", key: "db.url", message: "Env var DB_URL for 'db.url' is deprecated, use DATABASE_URL instead" },
+        { type: "warning", key: "db.pool", message: "Env var POOL_SIZE for 'db.pool' is deprecated: POOL_SIZE is removed in v3" },
+      ]);
+    });
+
+    it("lists every alias in tried", () => {
+      try {
+        resolveValues(s, { env: {} });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect((e as ConfigError).issues[0].tried).toEqual(["env:DATABASE_URL", "env:DB_URL"]);
+      }
+    });
+
+    it("applies aliases to array element fields", () => {
+      const brokers = schema({
+        brokers: field({
+          type: z.array(schema({ host: field({ type: z.string(), env: ["HOST", { name: "ADDR", deprecated: true }] }) })),
+          env: "BROKERS",
+        }),
+      });
+      const config = resolveValues(brokers, { env: { BROKERS_0_ADDR: "kafka-0" } });
+      expect(config.brokers).toEqual([{ host: "kafka-0" }]);
+      expect(getSources(config)?.["brokers.0.host"]).toBe("env:BROKERS_0_ADDR");
+    });
+  });
+
+  describe("derived env var names", () => {
+    const definition = {
+      db: {
+        host: field({ type: z.string(), env: "DB_HOST" }),
+        pool: { max: field({ type: z.coerce.number() }) },
+        poolSize: field({ type: z.coerce.number(), default: 5 }),
+      },
+    };
+
+    it("derives nested names from the key path", () => {
+      const s = schema(definition, { envPrefix: "MYAPP_" });
+      const config = resolveValues(s, {
+        env: { DB_HOST: "localhost", MYAPP_DB__POOL__MAX: "10", MYAPP_DB__POOL_SIZE: "3" },
+      });
+      expect(config.db).toEqual({ host: "localhost", pool: { max: 10 }, poolSize: 3 });
+      expect(getSources(config)?.["db.pool.max"]).toBe("env:MYAPP_DB__POOL__MAX");
+    });
+
+    it("derives flat names", () => {
+      const s = schema({ db: { pool: { max: field({ type: z.coerce.number() }) } } }, { envPrefix: "MYAPP_", envNaming: "flat" });
+      const config = resolveValues(s, { env: { MYAPP_DB_POOL_MAX: "10" } });
+      expect(config.db.pool.max).toBe(10);
+    });
+
+    it("accepts a custom naming function", () => {
+      const s = schema({ db: { host: field({ type: z.string() }) } }, { envNaming: (path) => path.join("-") });
+      const config = resolveValues(s, { env: { "db-host": "localhost" } });
+      expect(config.db.host).toBe("localhost");
+    });
+
+    it("lets resolve options override the schema's", () => {
+      const s = schema(definition, { envPrefix: "MYAPP_" });
+      const config = resolveValues(s, {
+        env: { DB_HOST: "localhost", OTHER_DB_POOL_MAX: "10" },
+        envPrefix: "OTHER_",
+        envNaming: "flat",
+      });
+      expect(config.db.pool.max).toBe(10);
+    });
+
+    it("leaves fields without env alone when no prefix or naming is set", () => {
+      const s = schema(definition);
+      expect(() => resolveValues(s, { env: { DB_HOST: "localhost", DB__POOL__MAX: "10" } })).toThrow(
+        /Missing required config at 'db.pool.max'/
+      );
+    });
+
+    it("reports derived names in diagnostics and toDebugObject()", () => {
+      const s = schema(definition, { envPrefix: "MYAPP_" });
+      const config = resolveValues(s, { env: { DB_HOST: "localhost", MYAPP_DB__POOL__MAX: "10" } });
+
+      const decision = config
+        .getDiagnostics()
+        .find((d) => d.type === "sourceDecision" && d.key === "db.poolSize");
+      expect(decision).toMatchObject({ picked: "default", tried: ["env:MYAPP_DB__POOL_SIZE", "default"] });
+
+      const debug = config.toDebugObject().config as Record<string, Record<string, unknown>>;
+      expect(debug.db.host).toEqual({ value: "localhost", source: "env:DB_HOST" });
+      expect(debug.db.poolSize).toEqual({ value: 5, source: "default", env: "MYAPP_DB__POOL_SIZE" });
+    });
+
+    it("names the derived variable when it is missing", () => {
+      const s = schema(definition, { envPrefix: "MYAPP_" });
+      try {
+        resolveValues(s, { env: { DB_HOST: "localhost" } });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect((e as ConfigError).issues[0].tried).toEqual(["env:MYAPP_DB__POOL__MAX"]);
+      }
+    });
+  });
+
+  describe("interpolation", () => {
+    it("expands env placeholders in file values and defaults", () => {
+      const s = schema({
+        host: field({ type: z.string() }),
+        url: field({ type: z.string(), default: "http://${HOST_NAME:-localhost}:${PORT:-8080}" }),
+      });
+      const config = resolveValues(s, { env: { PORT: "9000" }, fileValues: { host: "db-${PORT}.internal" } });
+      expect(config.host).toBe("db-9000.internal");
+      expect(config.url).toBe("http://localhost:9000");
+      expect(() => resolveValues(s, { env: {}, fileValues: { host: "${HOST_NAME}.internal" } })).toThrow(
+        "Cannot interpolate config at 'host': env var 'HOST_NAME' is not set"
+      );
+    });
+
+    it("uses the fallback for empty env vars", () => {
+      const s = schema({ region: field({ type: z.string(), default: "${REGION:-eu-west-1}" }) });
+      expect(resolveValues(s, { env: { REGION: "" } }).region).toBe("eu-west-1");
+    });
+
+    it("resolves references to other keys regardless of order", () => {
+      const s = schema({
+        databaseUrl: field({ type: z.string(), default: "postgres://${ref:db.host}:${ref:db.port}/${ref:db.name}" }),
+        db: {
+          host: field({ type: z.string(), env: "DB_HOST" }),
+          port: field({ type: z.coerce.number(), default: 5432 }),
+          name: "app",
+        },
+      });
+      const config = resolveValues(s, { env: { DB_HOST: "db.internal" } });
+      expect(config.databaseUrl).toBe("postgres://db.internal:5432/app");
+      expect(getSources(config)?.databaseUrl).toBe("default");
+    });
+
+    it("does not expand values from env, secret files or overrides", () => {
+      const s = schema({ val: field({ type: z.string(), env: "VAL" }) });
+      expect(resolveValues(s, { env: { VAL: "${HOME}" } }).val).toBe("${HOME}");
+      expect(resolveValues(s, { env: {}, override: { val: "${HOME}" } }).val).toBe("${HOME}");
+    });
+
+    it("keeps escaped placeholders literal", () => {
+      const s = schema({ template: field({ type: z.string(), default: "$${name} is ${ref:name}" }), name: "zfig" });
+      expect(resolveValues(s, { env: {} }).template).toBe("${name} is zfig");
+    });
+
+    it("expands strings inside arrays and objects", () => {
+      const s = schema({ hosts: field({ type: z.array(z.string()) }) });
+      const config = resolveValues(s, { env: { ZONE: "a" }, fileValues: { hosts: ["web-${ZONE}", "api-${ZONE}"] } });
+      expect(config.hosts).toEqual(["web-a", "api-a"]);
+    });
+
+    it("reports unknown and invalid references", () => {
+      const s = schema({
+        a: field({ type: z.string(), default: "${ref:missing}" }),
+        b: field({ type: z.string(), default: "${ref:db}" }),
+        c: field({ type: z.string(), default: "${ref:d}" }),
+        d: field({ type: z.string(), env: "D" }),
+        db: { host: "x" },
+      });
+      try {
+        resolveValues(s, { env: {} });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect((e as ConfigError).issues.map((i) => i.message)).toEqual([
+          "Cannot interpolate config at 'a': ${ref:missing}: unknown key 'missing'",
+          "Cannot interpolate config at 'b': ${ref:db}: 'db' is an object, not a value",
+          "Missing required config at 'd' (value: undefined)",
+          "Cannot interpolate config at 'c': ${ref:d}: 'd' has no valid value",
+        ]);
+      }
+    });
+
+    it("throws on reference cycles", () => {
+      const s = schema({
+        a: field({ type: z.string(), default: "${ref:b}" }),
+        b: field({ type: z.string(), default: "${ref:c}" }),
+        c: field({ type: z.string(), default: "x-${ref:a}" }),
+      });
+      expect(() => resolveValues(s, { env: {} })).toThrow("Reference cycle: a -> b -> c -> a");
+    });
+
+    it("marks values built from sensitive fields as sensitive", () => {
+      const s = schema({
+        password: field({ type: z.string(), env: "DB_PASS", sensitive: true }),
+        url: field({ type: z.string(), default: "postgres://app:${ref:password}@db" }),
+        label: field({ type: z.string(), default: "url=${ref:url}" }),
+      });
+      const config = resolveValues(s, { env: { DB_PASS: "hunter2" } });
+
+      expect(config.url).toBe("postgres://app:hunter2@db");
+      expect(config.toString()).not.toContain("hunter2");
+      expect(JSON.parse(config.toString())).toMatchObject({ url: "[REDACTED]", label: "[REDACTED]" });
+      expect(config.toDebugObject().config).toMatchObject({ url: { value: "[REDACTED]", source: "default" } });
+    });
+
+    it("records interpolated placeholders in diagnostics", () => {
+      const s = schema({ url: field({ type: z.string(), default: "${HOST:-localhost}" }) });
+      const config = resolveValues(s, { env: {} });
+      expect(config.getDiagnostics()).toContainEqual({
+        type: "note",
+        message: "interpolated placeholders at 'url'",
+        meta: { key: "url", placeholders: ["${HOST:-localhost}"] },
+      });
+    });
+  });
+
+  describe("arrays of objects", () => {
+    const brokerSchema = schema({
+      host: field({ type: z.string() }),
+      port: field({ type: z.coerce.number(), default: 9092 }),
+      password: field({ type: z.string(), secretFile: "brokers/{index}/password", sensitive: true }),
+    });
+    const s = schema({ brokers: field({ type: z.array(brokerSchema), env: "BROKERS" }) });
+
+    beforeAll(() => {
+      for (const i of [0, 1]) {
+        mkdirSync(join(tempDir, "brokers", String(i)), { recursive: true });
+        writeFileSync(join(tempDir, "brokers", String(i), "password"), `pass-${i}`);
+      }
+    });
+
+    it("resolves elements from indexed env vars and secret files", () => {
+      const config = resolveValues(s, {
+        env: { BROKERS_0_HOST: "kafka-0", BROKERS_1_HOST: "kafka-1", BROKERS_1_PORT: "9093" },
+        secretsPath: tempDir,
+      });
+      expect(config.brokers).toEqual([
+        { host: "kafka-0", port: 9092, password: "pass-0" },
+        { host: "kafka-1", port: 9093, password: "pass-1" },
+      ]);
+      expect(getSources(config)).toEqual({
+        "brokers.0.host": "env:BROKERS_0_HOST",
+        "brokers.0.port": "default",
+        "brokers.0.password": `secretFile:${join(tempDir, "brokers/0/password")}`,
+        "brokers.1.host": "env:BROKERS_1_HOST",
+        "brokers.1.port": "env:BROKERS_1_PORT",
+        "brokers.1.password": `secretFile:${join(tempDir, "brokers/1/password")}`,
+      });
+    });
+
+    it("fails on indexed env vars past a missing element", () => {
+      expect(() =>
+        resolveValues(s, { env: { BROKERS_0_HOST: "a", BROKERS_0_PASSWORD: "p", BROKERS_2_HOST: "c" } })
+      ).toThrow("Invalid config at 'brokers': BROKERS_2_HOST set, but element 1 is missing");
+    });
+
+    it("merges file elements with env vars by index", () => {
+      const config = resolveValues(s, {
+        env: { BROKERS_1_HOST: "kafka-1-env", BROKERS_2_HOST: "kafka-2", BROKERS_2_PASSWORD: "c" },
+        fileValues: { brokers: [{ host: "kafka-0", password: "a" }, { host: "kafka-1", password: "b" }] },
+        secretsPath: join(tempDir, "missing"),
+      });
+      expect(config.brokers.map((b) => b.host)).toEqual(["kafka-0", "kafka-1-env", "kafka-2"]);
+    });
+
+    it("takes elements from the highest-priority array, replacing lower ones", () => {
+      const withDefault = schema({
+        brokers: field({
+          type: z.array(schema({ host: field({ type: z.string() }) })),
+          env: "B",
+          default: [{ host: "localhost" }, { host: "localhost2" }],
+        }),
+      });
+      const config = resolveValues(withDefault, { fileValues: { brokers: [{ host: "prod" }] }, env: {} });
+      expect(config.brokers).toEqual([{ host: "prod" }]);
+      expect(getSources(config)).toEqual({ "brokers.0.host": "file" });
+
+      const emptied = resolveValues(withDefault, {
+        override: { brokers: [] },
+        fileValues: { brokers: [{ host: "prod" }] },
+        env: {},
+      });
+      expect(emptied.brokers).toEqual([]);
+      expect(resolveValues(withDefault, { override: { brokers: [] }, env: { B_0_HOST: "kafka" } }).brokers).toEqual([
+        { host: "kafka" },
+      ]);
+    });
+
+    it("follows sourceOrder to pick the array", () => {
+      const config = resolveValues(s, {
+        initialValues: { brokers: [{ host: "initial", password: "a" }] },
+        fileValues: { brokers: [{ host: "file", password: "b" }, { host: "file-1", password: "c" }] },
+        sourceOrder: ["initial"],
+        secretsPath: join(tempDir, "missing"),
+        env: {},
+      });
+      expect(config.brokers.map((b) => b.host)).toEqual(["initial"]);
+    });
+
+    it("reports missing fields per element path", () => {
+      try {
+        resolveValues(s, { env: { BROKERS_0_HOST: "kafka-0", BROKERS_1_PORT: "9093" }, secretsPath: tempDir });
+        expect.fail("should have thrown");
+      } catch (e) {
+        expect((e as ConfigError).issues.map((i) => i.path)).toEqual(["brokers.1.host"]);
+        expect((e as ConfigError).issues[0].tried).toEqual(["env:BROKERS_1_HOST"]);
+      }
+    });
+
+    it("applies the array default per element", () => {
+      const withDefault = schema({
+        brokers: field({ type: z.array(schema({ host: field({ type: z.string() }) })), env: "B", default: [{ host: "localhost" }] }),
+      });
+      expect(resolveValues(withDefault, { env: {} }).brokers).toEqual([{ host: "localhost" }]);
+      expect(resolveValues(withDefault, { env: { B_0_HOST: "kafka" } }).brokers).toEqual([{ host: "kafka" }]);
+    });
+
+    it("checks array-level constraints", () => {
+      const bounded = schema({
+        brokers: field({ type: z.array(schema({ host: field({ type: z.string() }) })).min(2), env: "B" }),
+      });
+      expect(() => resolveValues(bounded, { env: { B_0_HOST: "kafka" } })).toThrow(/Invalid config at 'brokers'/);
+      expect(() => resolveValues(bounded, { env: {} })).toThrow("Missing required config at 'brokers'");
+    });
+
+    it("derives element names from the schema prefix", () => {
+      const prefixed = schema(
+        { brokers: field({ type: z.array(schema({ host: field({ type: z.string() }), maxConns: field({ type: z.coerce.number() }) })) }) },
+        { envPrefix: "APP_" }
+      );
+      const config = resolveValues(prefixed, { env: { APP_BROKERS_0_HOST: "kafka", APP_BROKERS_0_MAX_CONNS: "4" } });
+      expect(config.brokers).toEqual([{ host: "kafka", maxConns: 4 }]);
+    });
+
+    it("redacts sensitive fields inside elements", () => {
+      const config = resolveValues(s, { env: { BROKERS_0_HOST: "kafka-0", BROKERS_1_HOST: "kafka-1" }, secretsPath: tempDir });
+      expect(config.toString()).not.toContain("pass-");
+      expect(JSON.parse(config.toString()).brokers[0]).toEqual({ host: "kafka-0", port: 9092, password: "[REDACTED]" });
+      expect(config.toDebugObject().config).toEqual({
+        brokers: [
+          {
+            host: { value: "kafka-0", source: "env:BROKERS_0_HOST", env: "BROKERS_0_HOST" },
+            port: { value: 9092, source: "default", env: "BROKERS_0_PORT" },
+            password: {
+              value: "[REDACTED]",
+              source: `secretFile:${join(tempDir, "brokers/0/password")}`,
+              env: "BROKERS_0_PASSWORD",
+            },
+          },
+          {
+            host: expect.objectContaining({ value: "kafka-1" }),
+            port: expect.objectContaining({ value: 9092 }),
+            password: expect.objectContaining({ value: "[REDACTED]" }),
+          },
+        ],
+      });
+    });
+    it("redacts every element field of a sensitive array", () => {
+      const secret = schema({
+        brokers: field({ type: z.array(schema({ host: field({ type: z.string() }), pass: field({ type: z.string() }) })), sensitive: true }),
+      });
+      const config = resolveValues(secret, { fileValues: { brokers: [{ host: "kafka", pass: "topsecret" }] }, env: {} });
+      expect(config.toString()).not.toContain("topsecret");
+      expect(config.toDebugObject().config).toMatchObject({ brokers: [{ pass: { value: "[REDACTED]" } }] });
+      expect(() =>
+        resolveValues(secret, { fileValues: { brokers: [{ host: "kafka", pass: 12345 }] }, env: {} })
+      ).toThrow("(value: [REDACTED])");
+    });
+  });
+
+  describe("record sections", () => {
+    const s = schema({
+      featureFlags: field({ type: z.record(z.string(), z.stringbool()), env: "FLAG" }),
+    });
+
+    it("collects entries from env vars with the prefix", () => {
+      const config = resolveValues(s, { env: { FLAG_CHECKOUT: "true", FLAG_NEW_SEARCH: "false", OTHER: "1" } });
+      expect(config.featureFlags).toEqual({ checkout: true, newSearch: false });
+      expect(getSources(config)).toEqual({
+        "featureFlags.checkout": "env:FLAG_CHECKOUT",
+        "featureFlags.newSearch": "env:FLAG_NEW_SEARCH",
+      });
+    });
+
+    it("merges env entries with file values", () => {
+      const config = resolveValues(s, {
+        env: { FLAG_CHECKOUT: "false" },
+        fileValues: { featureFlags: { checkout: "true", darkMode: "true" } },
+      });
+      expect(config.featureFlags).toEqual({ checkout: false, darkMode: true });
+      expect(getSources(config)?.["featureFlags.darkMode"]).toBe("file");
+    });
+
+    it("sets file entries whose keys aren't camelCase from their env vars", () => {
+      const tenants = schema({ tenants: field({ type: z.record(z.string(), z.string()), env: "TENANT" }) });
+      const config = resolveValues(tenants, {
+        env: { TENANT_ACME_CORP: "x", TENANT_NEW_CHECKOUT: "y", TENANT_GLOBEX: "z" },
+        fileValues: { tenants: { "acme-corp": "a", new_checkout: "b" } },
+      });
+      expect(config.tenants).toEqual({ "acme-corp": "x", new_checkout: "y", globex: "z" });
+      expect(getSources(config)).toEqual({
+        "tenants.acme-corp": "env:TENANT_ACME_CORP",
+        "tenants.new_checkout": "env:TENANT_NEW_CHECKOUT",
+        "tenants.globex": "env:TENANT_GLOBEX",
+      });
+    });
+
+    it("validates each entry with the value schema", () => {
+      expect(() => resolveValues(s, { env: { FLAG_CHECKOUT: "maybe" } })).toThrow(/Invalid config at 'featureFlags.checkout'/);
+    });
+
+    it("validates keys with the key schema", () => {
+      const tenants = schema({
+        tenants: field({ type: z.record(z.string().regex(/^[a-z]+$/), z.string()), env: "TENANT" }),
+      });
+      expect(() => resolveValues(tenants, { env: {}, fileValues: { tenants: { "Acme-1": "x" } } })).toThrow(
+        /Invalid config at 'tenants'/
+      );
+    });
+
+    it("uses the record default for entries and as a fallback", () => {
+      const withDefault = schema({
+        limits: field({ type: z.record(z.string(), z.coerce.number()), env: "LIMIT_", default: { api: 100 } }),
+      });
+      expect(resolveValues(withDefault, { env: {} }).limits).toEqual({ api: 100 });
+      expect(resolveValues(withDefault, { env: { LIMIT_API: "5", LIMIT_UPLOADS: "2" } }).limits).toEqual({
+        api: 5,
+        uploads: 2,
+      });
+      expect(() => resolveValues(s, { env: {} })).toThrow("Missing required config at 'featureFlags'");
+    });
+
+    it("marks every entry sensitive", () => {
+      const tokens = schema({
+        apiTokens: field({ type: z.record(z.string(), z.string()), env: "TOKEN", sensitive: true }),
+      });
+      const config = resolveValues(tokens, { env: { TOKEN_GITHUB: "gh-secret", TOKEN_NPM: "npm-secret" } });
+      expect(config.toString()).not.toMatch(/secret/);
+      expect(config.toDebugObject().config).toEqual({
+        apiTokens: {
+          github: { value: "[REDACTED]", source: "env:TOKEN_GITHUB", env: "TOKEN_GITHUB" },
+          npm: { value: "[REDACTED]", source: "env:TOKEN_NPM", env: "TOKEN_NPM" },
+        },
+      });
+    });
+  });
+
+  describe("raw Zod types", () => {
+    it("reads env vars and secret files named in .meta()", () => {
+      const s = schema({
+        port: z.number().meta({ env: "PORT" }),
+        pass: z.string().meta({ secretFile: "secret", sensitive: true }),
+      });
+      const config = resolveValues(s, { env: { PORT: "8080" }, secretsPath: tempDir });
+      expect(config).toEqual({ port: 8080, pass: "file-secret" });
+      expect(getSources(config)).toEqual({ port: "env:PORT", pass: `secretFile:${secretFilePath}` });
+      expect(config.toString()).toContain("[REDACTED]");
+    });
+
+    it("finds .meta() beneath optional and default wrappers", () => {
+      const s = schema({
+        proxy: z.string().meta({ env: "PROXY" }).optional(),
+        retries: z.number().meta({ env: "RETRIES" }).default(3),
+      });
+      expect(resolveValues(s, { env: { PROXY: "http://proxy" } })).toEqual({ proxy: "http://proxy", retries: 3 });
+      expect(resolveValues(s, { env: { RETRIES: "5" } })).toEqual({ proxy: undefined, retries: 5 });
+    });
+
+    it("uses derived env var names", () => {
+      const s = schema({ db: { port: z.number() } }, { envPrefix: "APP_" });
+      expect(resolveValues(s, { env: { APP_DB__PORT: "5433" } }).db.port).toBe(5433);
+    });
+  });
+
+  describe("section schemas", () => {
+    const db = schema({
+      host: field({ type: z.string() }),
+      port: field({ type: z.number(), default: 5432 }),
+    }, { envPrefix: "DB_", envNaming: "flat" });
+
+    it("resolves fields of an embedded schema()", () => {
+      const plain = schema({ host: field({ type: z.string(), env: "DB_HOST" }), tls: z.boolean().default(false) });
+      const s = schema({ db: plain, name: field({ type: z.string(), default: "app" }) });
+      expect(resolveValues(s, { env: { DB_HOST: "localhost" } })).toEqual({
+        db: { host: "localhost", tls: false },
+        name: "app",
+      });
+    });
+
+    it("names a section's keys with its own envPrefix and envNaming", () => {
+      const s = schema({ db, cache: { host: field({ type: z.string() }) } }, { envPrefix: "APP_" });
+      const config = resolveValues(s, { env: { DB_HOST: "db.internal", DB_PORT: "5433", APP_CACHE__HOST: "redis" } });
+      expect(config).toEqual({ db: { host: "db.internal", port: 5433 }, cache: { host: "redis" } });
+      expect(getSources(config)).toMatchObject({ "db.host": "env:DB_HOST", "cache.host": "env:APP_CACHE__HOST" });
+    });
+
+    it("names a section's keys when the outer schema has no naming options", () => {
+      const s = schema({ db, name: field({ type: z.string(), default: "app" }) });
+      expect(resolveValues(s, { env: { DB_HOST: "db.internal", NAME: "other" } })).toEqual({
+        db: { host: "db.internal", port: 5432 },
+        name: "app",
+      });
+    });
+
+    it("rejects derived names that collide across sections", () => {
+      const replica = schema({ host: field({ type: z.string() }) }, { envPrefix: "DB_" });
+      const s = schema({ db, replica });
+      expect(() => resolveValues(s, { env: {} })).toThrow("Derived env var names collide:\n  - DB_HOST: db.host, replica.host");
+    });
+  });
+
   describe("nested schemas", () => {
     it("resolves nested objects", () => {
       const s = schema({
@@ -164,6 +852,598 @@ describe("resolveValues()", () => {
     });
   });
 
+  describe("type-aware coercion", () => {
+    const s = schema({
+      port: field({ type: z.number().int(), env: "PORT" }),
+      debug: field({ type: z.boolean(), env: "DEBUG", default: false }),
+      hosts: field({ type: z.array(z.string()), env: "HOSTS", default: [] }),
+      level: field({ type: z.enum(["debug", "info"]), env: "LEVEL", default: "info" }),
+      token: field({ type: z.number(), env: "TOKEN", sensitive: true, default: 0 }),
+    });
+
+    it("converts env strings to the field's type", () => {
+      const config = resolveValues(s, { env: { PORT: "8080", DEBUG: "false", HOSTS: "a,b", LEVEL: "DEBUG" } });
+      expect(config).toMatchObject({ port: 8080, debug: false, hosts: ["a", "b"], level: "debug" });
+    });
+
+    it("converts secret file contents", () => {
+      const secret = schema({ retries: field({ type: z.number(), secretFile: "retries" }) });
+      writeFileSync(join(tempDir, "retries"), "3\n");
+      expect(resolveValues(secret, { env: {}, secretsPath: tempDir }).retries).toBe(3);
+    });
+
+    it("leaves values from files and defaults to Zod", () => {
+      expect(() => resolveValues(s, { env: { PORT: "1" }, fileValues: { debug: "false" } })).toThrow(
+        /Invalid config at 'debug'/
+      );
+    });
+
+    it("names the source when coercion fails", () => {
+      expect(() => resolveValues(s, { env: { PORT: "80a" } })).toThrow(
+        `Cannot coerce env:PORT at 'port': expected a number (value: "80a")`
+      );
+      expect(() => resolveValues(s, { env: { PORT: "1", TOKEN: "abc" } })).toThrow(
+        "Cannot coerce env:TOKEN at 'token': expected a number (value: [REDACTED])"
+      );
+    });
+  });
+
+  describe("optional, nullable and defaulted types", () => {
+    const s = schema({
+      proxy: field({ type: z.string().optional(), env: "PROXY" }),
+      region: field({ type: z.string().nullable(), env: "REGION" }),
+      retries: field({ type: z.number().default(3), env: "RETRIES" }),
+      timeout: field({ type: z.number().nullable().default(null), env: "TIMEOUT" }),
+    });
+
+    it("resolves unset fields to undefined, null or the Zod default", () => {
+      const config = resolveValues(s, { env: {} });
+      expect(config).toEqual({ proxy: undefined, region: null, retries: 3, timeout: null });
+      expect("proxy" in config).toBe(true);
+    });
+
+    it("still uses sources when they provide a value", () => {
+      const config = resolveValues(s, { env: { PROXY: "http://proxy", REGION: "eu", RETRIES: "5", TIMEOUT: "10" } });
+      expect(config).toEqual({ proxy: "http://proxy", region: "eu", retries: 5, timeout: 10 });
+    });
+
+    it("prefers the field default over unset", () => {
+      const withDefault = schema({ proxy: field({ type: z.string().optional(), default: "none" }) });
+      expect(resolveValues(withDefault, { env: {} }).proxy).toBe("none");
+    });
+
+    it("records an unset source", () => {
+      const config = resolveValues(s, { env: {} });
+      expect(getSources(config)).toEqual({ proxy: "unset", region: "unset", retries: "unset", timeout: "unset" });
+      expect(config.toDebugObject().config).toMatchObject({
+        proxy: { value: undefined, source: "unset" },
+        retries: { value: 3, source: "unset" },
+      });
+      const decision = config.getDiagnostics()?.find((e) => e.type === "sourceDecision" && e.key === "proxy");
+      expect(decision).toEqual({ type: "sourceDecision", key: "proxy", picked: "unset", tried: ["env:PROXY"] });
+    });
+
+    it("keeps coerce types required", () => {
+      const required = schema({ flag: field({ type: z.coerce.boolean(), env: "FLAG" }) });
+      expect(() => resolveValues(required, { env: {} })).toThrow("Missing required config at 'flag'");
+    });
+  });
+
+  describe("derived fields", () => {
+    const db = {
+      host: field({ type: z.string(), env: "DB_HOST", default: "localhost" }),
+      port: field({ type: z.number(), env: "DB_PORT", default: 5432 }),
+      user: field({ type: z.string(), env: "DB_USER", default: "app" }),
+      password: field({ type: z.string(), env: "DB_PASSWORD", sensitive: true }),
+    };
+
+    it("computes a value from other keys, resolving them first", () => {
+      const s = schema({
+        url: field({
+          type: z.string().url(),
+          env: "DATABASE_URL",
+          derive: (c: { db: { host: string; port: number; user: string } }) =>
+            `postgres://${c.db.user}@${c.db.host}:${c.db.port}/app`,
+        }),
+        db,
+      });
+      const config = resolveValues(s, { env: { DB_HOST: "db.internal", DB_PASSWORD: "pw" } });
+      expect(config.url).toBe("postgres://app@db.internal:5432/app");
+      expect(getSources(config)?.url).toBe("derived(db.user, db.host, db.port)");
+      expect(config.toString()).toContain("postgres://app@db.internal:5432/app");
+    });
+
+    it("lets other sources win over the derived value", () => {
+      const s = schema({ db, url: field({ type: z.string(), env: "DATABASE_URL", derive: () => "derived" }) });
+      const config = resolveValues(s, { env: { DATABASE_URL: "from-env", DB_PASSWORD: "pw" } });
+      expect(config.url).toBe("from-env");
+    });
+
+    it("falls back to another key's value", () => {
+      const s = schema({
+        db,
+        replica: { host: field({ type: z.string(), env: "REPLICA_HOST", derive: "db.host" }) },
+      });
+      const config = resolveValues(s, { env: { DB_HOST: "primary", DB_PASSWORD: "pw" } });
+      expect(config.replica.host).toBe("primary");
+      expect(getSources(config)?.["replica.host"]).toBe("derived(db.host)");
+    });
+
+    it("redacts values derived from sensitive keys", () => {
+      const s = schema({
+        db,
+        dsn: field({ type: z.string(), derive: (c: { db: { user: string; password: string } }) => `${c.db.user}:${c.db.password}` }),
+      });
+      const config = resolveValues(s, { env: { DB_PASSWORD: "hunter2" } });
+      expect(config.dsn).toBe("app:hunter2");
+      expect(config.toString()).not.toContain("hunter2");
+      expect(config.toDebugObject().config).toMatchObject({ dsn: { value: "[REDACTED]" } });
+    });
+
+    it("validates derived values with the field's type", () => {
+      const s = schema({ db, poolSize: field({ type: z.number().max(10), derive: (c: { db: { port: number } }) => c.db.port }) });
+      expect(() => resolveValues(s, { env: { DB_PASSWORD: "pw" } })).toThrow("Invalid config at 'poolSize'");
+    });
+
+    it("reports derive failures and invalid inputs", () => {
+      const s = schema({
+        db,
+        broken: field({ type: z.string(), derive: () => { throw new Error("boom"); } }),
+        url: field({ type: z.string(), derive: (c: { db: { port: number } }) => `:${c.db.port}` }),
+      });
+      try {
+        resolveValues(s, { env: { DB_PASSWORD: "pw", DB_PORT: "x" } });
+        expect.fail("should throw");
+      } catch (e) {
+        expect((e as ConfigError).issues.map((i) => i.message)).toEqual([
+          `Cannot coerce env:DB_PORT at 'db.port': expected a number (value: "x")`,
+          "Invalid config at 'broken': derive() threw: boom",
+          "Invalid config at 'url': derived from invalid config at 'db.port'",
+        ]);
+      }
+    });
+
+    it("rejects derive cycles", () => {
+      const s = schema({
+        a: field({ type: z.string(), derive: "b" }),
+        b: field({ type: z.string(), derive: (c: { a: string }) => c.a }),
+      });
+      expect(() => resolveValues(s, { env: {} })).toThrow("Reference cycle: a -> b -> a");
+    });
+  });
+
+  describe("strict mode", () => {
+    const s = schema({
+      database: { host: field({ type: z.string(), default: "localhost" }), port: field({ type: z.number(), default: 5432 }) },
+      brokers: field({ type: z.array(z.object({ host: z.string() })), default: [] }),
+      labels: field({ type: z.record(z.string(), z.string()), default: {} }),
+      mail: discriminated("driver", {
+        smtp: { host: field({ type: z.string() }) },
+        log: { level: field({ type: z.string(), default: "info" }) },
+      }, { default: "log" }),
+    });
+
+    it("warns about unknown keys with the closest known key", () => {
+      const config = resolveValues(s, {
+        fileValues: { datbase: { host: "db" }, database: { prot: 1 } },
+        configPath: "./config.yaml",
+        strict: "warn",
+        env: {},
+      });
+      expect(config.database).toEqual({ host: "localhost", port: 5432 });
+      expect(warnings(config)).toEqual([
+        {
+          type: "warning",
+          key: "datbase.host",
+          message: "Unknown key 'datbase.host' in file:./config.yaml, did you mean 'database.host'?",
+        },
+        { type: "warning", key: "database.prot", message: "Unknown key 'database.prot' in file:./config.yaml, did you mean 'database.port'?" },
+      ]);
+    });
+
+    it("fails on unknown keys in every source with 'error'", () => {
+      const resolving = () =>
+        resolveValues(s, {
+          initialValues: { unrelated: true },
+          override: { brokers: [{ host: "kafka", hots: "kafka" }] },
+          strict: "error",
+          env: {},
+        });
+      expect(resolving).toThrow(ConfigError);
+      expect(resolving).toThrow(
+        "Config resolution failed with 2 errors:\n" +
+          "  - Unknown key 'unrelated' in initial\n" +
+          "  - Unknown key 'brokers.0.hots' in override, did you mean 'brokers.0.host'?"
+      );
+    });
+
+    it("accepts record entries and the keys of the picked branch", () => {
+      const config = resolveValues(s, {
+        fileValues: { labels: { team: "core" }, mail: { driver: "log", level: "debug" } },
+        strict: "error",
+        env: {},
+      });
+      expect(config.mail).toEqual({ driver: "log", level: "debug" });
+      expect(() =>
+        resolveValues(s, { fileValues: { mail: { driver: "log", host: "smtp" } }, strict: "error", env: {} })
+      ).toThrow("Unknown key 'mail.host' in file");
+    });
+
+    it("ignores unknown keys unless enabled", () => {
+      const config = resolveValues(s, { fileValues: { datbase: { host: "db" } }, env: {} });
+      expect(warnings(config)).toEqual([]);
+    });
+  });
+
+  describe("unknown env vars", () => {
+    const s = schema(
+      {
+        db: { host: field({ type: z.string(), default: "localhost" }), port: field({ type: z.number(), default: 5432 }) },
+        url: field({ type: z.string(), env: ["MYAPP_URL", { name: "MYAPP_LINK", deprecated: true }], default: "" }),
+        brokers: field({ type: z.array(z.object({ host: z.string() })), default: [] }),
+        flags: field({ type: z.record(z.string(), z.boolean()), env: "MYAPP_FLAG", default: {} }),
+        tracing: schema({ rate: field({ type: z.number(), default: 1 }) }, { envPrefix: "OTEL_" }),
+      },
+      { envPrefix: "MYAPP_" }
+    );
+
+    it("warns about unread env vars under the schema's prefixes", () => {
+      const config = resolveValues(s, {
+        env: { MYAPP_DB_HOTS: "db", OTEL_RAT: "0.5", MYAPP_UNRELATED: "x", OTHER_DB_HOTS: "db" },
+        unknownEnv: true,
+      });
+      expect(config.db.host).toBe("localhost");
+      expect(warnings(config)).toEqual([
+        { type: "warning", key: "MYAPP_DB_HOTS", message: "Env var MYAPP_DB_HOTS is not read by any field, did you mean MYAPP_DB__HOST?" },
+        { type: "warning", key: "OTEL_RAT", message: "Env var OTEL_RAT is not read by any field, did you mean OTEL_RATE?" },
+        { type: "warning", key: "MYAPP_UNRELATED", message: "Env var MYAPP_UNRELATED is not read by any field" },
+      ]);
+    });
+
+    it("accepts aliases, _FILE variants, array elements and record entries", () => {
+      const config = resolveValues(s, {
+        env: {
+          MYAPP_LINK: "http://link",
+          MYAPP_DB__PORT_FILE: undefined,
+          MYAPP_DB__HOST: "db",
+          MYAPP_BROKERS_0_HOST: "kafka",
+          MYAPP_FLAG_NEW_CHECKOUT: "true",
+        },
+        unknownEnv: true,
+      });
+      expect(config.brokers).toEqual([{ host: "kafka" }]);
+      // Only the deprecated alias is reported
+      expect(warnings(config)?.map((e) => e.type === "warning" && e.key)).toEqual(["url"]);
+      expect(() =>
+        resolveValues(s, { env: { MYAPP_BROKERS_0_HOTS: "kafka" }, unknownEnv: true, strict: "error" })
+      ).toThrow("Env var MYAPP_BROKERS_0_HOTS is not read by any field");
+    });
+
+    it("scans the given prefixes and fails with strict: 'error'", () => {
+      const explicit = schema({ host: field({ type: z.string(), env: "APP_HOST", default: "localhost" }) });
+      const options = { env: { APP_HOTS: "example.com" }, unknownEnv: ["APP_"] };
+      expect(warnings(resolveValues(explicit, options))).toHaveLength(1);
+      expect(() => resolveValues(explicit, { ...options, strict: "error" })).toThrow(
+        new ConfigError("Env var APP_HOTS is not read by any field, did you mean APP_HOST?", "APP_HOTS", false)
+      );
+    });
+
+    it("counts env vars read by placeholders", () => {
+      const s = schema({ greeting: field({ type: z.string() }) }, { envPrefix: "APP_" });
+      const config = resolveValues(s, {
+        fileValues: { greeting: "hello ${APP_NAME}" },
+        env: { APP_NAME: "zfig" },
+        unknownEnv: true,
+      });
+      expect(config.greeting).toBe("hello zfig");
+      expect(warnings(config)).toEqual([]);
+    });
+  });
+
+  describe("profile defaults", () => {
+    const s = schema({
+      pool: field({ type: z.number(), env: "POOL", default: byProfile({ production: 20, development: 2 }, 5) }),
+      logLevel: field({ type: z.string().optional(), default: byProfile({ production: "warn" }) }),
+      workers: field({
+        type: z.number(),
+        default: ({ profile, env }) => (profile === "test" ? 1 : Number(env.CPUS ?? 4)),
+      }),
+    });
+
+    it("picks the default listed for the active profile", () => {
+      const config = resolveValues(s, { profile: "production", env: {} });
+      expect(config).toEqual({ pool: 20, logLevel: "warn", workers: 4 });
+      expect(getSources(config)).toEqual({
+        pool: "default:production",
+        logLevel: "default:production",
+        workers: "default:production",
+      });
+    });
+
+    it("falls back for unlisted profiles", () => {
+      const config = resolveValues(s, { profile: "staging", env: {} });
+      expect(config.pool).toBe(5);
+      expect(getSources(config)?.pool).toBe("default");
+      expect(config.logLevel).toBeUndefined();
+    });
+
+    it("reports a missing value when the profile has no default and there's no fallback", () => {
+      const required = schema({ logLevel: field({ type: z.string(), default: byProfile({ production: "warn" }) }) });
+      expect(() => resolveValues(required, { profile: "development", env: {} })).toThrow("logLevel");
+    });
+
+    it("defaults the profile to NODE_ENV", () => {
+      const config = resolveValues(s, { env: { NODE_ENV: "development" } });
+      expect(config.pool).toBe(2);
+      expect(getSources(config)?.pool).toBe("default:development");
+    });
+
+    it("passes the profile and env to function defaults", () => {
+      expect(resolveValues(s, { profile: "test", env: {} }).workers).toBe(1);
+      const config = resolveValues(s, { env: { CPUS: "8" } });
+      expect(config.workers).toBe(8);
+      expect(getSources(config)?.workers).toBe("default");
+    });
+
+    it("lets other sources win over the profile default", () => {
+      const config = resolveValues(s, { profile: "production", env: { POOL: "50" } });
+      expect(config.pool).toBe(50);
+      expect(getSources(config)?.pool).toBe("env:POOL");
+    });
+
+    it("supplies array element defaults per profile", () => {
+      const brokers = schema({
+        brokers: field({
+          type: z.array(z.object({ host: z.string() })),
+          default: byProfile({ production: [{ host: "kafka-1" }, { host: "kafka-2" }] }, [{ host: "localhost" }]),
+        }),
+      });
+      const config = resolveValues(brokers, { profile: "production", env: {} });
+      expect(config.brokers).toEqual([{ host: "kafka-1" }, { host: "kafka-2" }]);
+      expect(getSources(config)?.["brokers.1.host"]).toBe("default:production");
+    });
+  });
+
+  describe("requiredWhen", () => {
+    const s = schema({
+      mail: { driver: field({ type: z.enum(["smtp", "log"]), env: "MAIL_DRIVER", default: "log" }) },
+      smtp: {
+        password: field({
+          type: z.string(),
+          env: "SMTP_PASSWORD",
+          sensitive: true,
+          requiredWhen: { key: "mail.driver", equals: "smtp" },
+        }),
+        port: field({ type: z.number(), env: "SMTP_PORT", requiredWhen: { key: "mail.driver", oneOf: ["smtp"] } }),
+      },
+    });
+
+    it("resolves a missing field to undefined while the condition doesn't hold", () => {
+      const config = resolveValues(s, { env: {} });
+      expect(config.smtp).toEqual({ password: undefined, port: undefined });
+      expect(getSources(config)?.["smtp.password"]).toBe("unset");
+    });
+
+    it("requires the field while the condition holds", () => {
+      try {
+        resolveValues(s, { env: { MAIL_DRIVER: "smtp" } });
+        expect.fail("should throw");
+      } catch (e) {
+        expect((e as ConfigError).issues.map((i) => i.message)).toEqual([
+          `Missing required config at 'smtp.password' (value: [REDACTED]); required when mail.driver is "smtp"`,
+          `Missing required config at 'smtp.port' (value: undefined); required when mail.driver is one of "smtp"`,
+        ]);
+      }
+    });
+
+    it("validates the value when one is set", () => {
+      const config = resolveValues(s, { env: { MAIL_DRIVER: "smtp", SMTP_PASSWORD: "pw", SMTP_PORT: "587" } });
+      expect(config.smtp).toEqual({ password: "pw", port: 587 });
+    });
+
+    it("rejects conditions on unknown keys", () => {
+      const bad = schema({ a: field({ type: z.string(), requiredWhen: { key: "nope", equals: 1 } }) });
+      expect(() => resolveValues(bad, { env: {} })).toThrow("Unknown key 'nope' in requiredWhen at 'a'");
+    });
+  });
+
+  describe("discriminated sections", () => {
+    const s = schema({
+      mail: discriminated(
+        "driver",
+        {
+          smtp: {
+            host: field({ type: z.string(), env: "SMTP_HOST" }),
+            password: field({ type: z.string(), env: "SMTP_PASSWORD", sensitive: true }),
+          },
+          ses: { region: field({ type: z.string(), env: "SES_REGION", default: "eu-west-1" }) },
+        },
+        { env: "MAIL_DRIVER", default: "ses" }
+      ),
+    });
+
+    it("resolves only the picked branch", () => {
+      const config = resolveValues(s, { env: {} });
+      expect(config.mail).toEqual({ driver: "ses", region: "eu-west-1" });
+      expect(getSources(config)).toEqual({ "mail.driver": "default", "mail.region": "default" });
+    });
+
+    it("reads the discriminator from its sources", () => {
+      const config = resolveValues(s, { env: { MAIL_DRIVER: "SMTP", SMTP_HOST: "mx", SMTP_PASSWORD: "pw" } });
+      expect(config.mail).toEqual({ driver: "smtp", host: "mx", password: "pw" });
+      expect(config.toString()).toContain("[REDACTED]");
+      expect(config.toDebugObject().config).toEqual({
+        mail: {
+          driver: { value: "smtp", source: "env:MAIL_DRIVER" },
+          host: { value: "mx", source: "env:SMTP_HOST" },
+          password: { value: "[REDACTED]", source: "env:SMTP_PASSWORD" },
+        },
+      });
+    });
+
+    it("records the picked branch in diagnostics", () => {
+      const config = resolveValues(s, { env: { MAIL_DRIVER: "smtp", SMTP_HOST: "mx", SMTP_PASSWORD: "pw" } });
+      expect(config.getDiagnostics()).toContainEqual({
+        type: "branch",
+        key: "mail",
+        discriminator: "mail.driver",
+        picked: "smtp",
+        options: ["smtp", "ses"],
+      });
+    });
+
+    it("reports missing fields of the picked branch only", () => {
+      expect(() => resolveValues(s, { env: { MAIL_DRIVER: "smtp", SMTP_HOST: "mx" } })).toThrow(
+        "Missing required config at 'mail.password' (value: [REDACTED])"
+      );
+    });
+
+    it("rejects unknown discriminator values", () => {
+      expect(() => resolveValues(s, { env: { MAIL_DRIVER: "sendmail" } })).toThrow(
+        `Cannot coerce env:MAIL_DRIVER at 'mail.driver': expected smtp or ses (value: "sendmail")`
+      );
+    });
+
+    it("derives env var names for the discriminator and every branch", () => {
+      const named = schema(
+        {
+          cache: discriminated("kind", {
+            redis: { url: field({ type: z.string() }) },
+            memcached: { url: field({ type: z.string() }), pool: field({ type: z.number(), default: 4 }) },
+          }),
+        },
+        { envPrefix: "APP_" }
+      );
+      const config = resolveValues(named, { env: { APP_CACHE__KIND: "memcached", APP_CACHE__URL: "mc:11211" } });
+      expect(config.cache).toEqual({ kind: "memcached", url: "mc:11211", pool: 4 });
+    });
+
+    it("takes the whole section from config files", () => {
+      const config = resolveValues(s, { env: {}, fileValues: { mail: { driver: "smtp", host: "mx", password: "pw" } } });
+      expect(config.mail).toEqual({ driver: "smtp", host: "mx", password: "pw" });
+    });
+
+    it("lets other fields read keys through the picked branch", () => {
+      const dependent = schema({
+        relay: field({ type: z.string(), env: "RELAY", requiredWhen: { key: "mail.driver", equals: "smtp" } }),
+        sender: field({ type: z.string(), default: "${ref:mail.driver}@example.com" }),
+        region: field({ type: z.string().optional(), derive: (cfg) => (cfg.mail as { region?: string }).region }),
+        mail: s.shape.mail,
+      });
+      const ses = resolveValues(dependent, { env: {} });
+      expect(ses).toMatchObject({ relay: undefined, sender: "ses@example.com", region: "eu-west-1" });
+
+      const env = { MAIL_DRIVER: "smtp", SMTP_HOST: "mx", SMTP_PASSWORD: "pw" };
+      expect(() => resolveValues(dependent, { env })).toThrow(
+        `Missing required config at 'relay' (value: undefined); required when mail.driver is "smtp"`
+      );
+      const smtp = resolveValues(dependent, { env: { ...env, RELAY: "gw" } });
+      expect(smtp).toMatchObject({ relay: "gw", sender: "smtp@example.com", region: undefined });
+      expect(smtp.getDiagnostics()?.filter((e) => e.type === "branch")).toHaveLength(1);
+    });
+  });
+
+  describe("cross-field refinements", () => {
+    const pool = schema(
+      {
+        min: field({ type: z.number(), env: "POOL_MIN", default: 1 }),
+        max: field({ type: z.number(), env: "POOL_MAX", default: 10 }),
+      },
+      { refine: [{ check: (p) => p.min <= p.max, message: "min must not exceed max", paths: ["min", "max"] }] }
+    );
+    const s = schema(
+      {
+        pool,
+        tls: {
+          enabled: field({ type: z.boolean(), env: "TLS_ENABLED", default: false }),
+          key: field({ type: z.string().optional(), env: "TLS_KEY", sensitive: true }),
+        },
+      },
+      {
+        superRefine: (config, ctx) => {
+          if (config.tls.enabled && !config.tls.key) ctx.addIssue({ message: "key is required with TLS", paths: ["tls.key"] });
+        },
+      }
+    );
+
+    it("returns the config when every rule passes", () => {
+      expect(resolveValues(s, { env: { POOL_MIN: "2", TLS_ENABLED: "true", TLS_KEY: "k" } })).toMatchObject({
+        pool: { min: 2, max: 10 },
+      });
+    });
+
+    it("points at the involved keys with their values and sources", () => {
+      try {
+        resolveValues(s, { env: { POOL_MIN: "20" } });
+        expect.fail("should throw");
+      } catch (e) {
+        const err = e as ConfigError;
+        expect(err.path).toBe("pool.min");
+        expect(err.message).toBe(
+          "Invalid config at 'pool.min': min must not exceed max (pool.min: 20 from env:POOL_MIN, pool.max: 10 from default)"
+        );
+        expect(err.issues[0]).toMatchObject({ path: "pool.min", source: "env:POOL_MIN", sensitive: false });
+      }
+    });
+
+    it("reports superRefine issues and redacts sensitive keys", () => {
+      const rule = schema(
+        { token: field({ type: z.string(), env: "TOKEN", sensitive: true }) },
+        { refine: [{ check: (c) => c.token.startsWith("tok_"), message: "token must start with tok_", paths: ["token"] }] }
+      );
+      expect(() => resolveValues(rule, { env: { TOKEN: "secret-value" } })).toThrow(
+        "Invalid config at 'token': token must start with tok_ (token: [REDACTED] from env:TOKEN)"
+      );
+      expect(() => resolveValues(s, { env: { TLS_ENABLED: "yes" } })).toThrow(
+        "Invalid config at 'tls.key': key is required with TLS (tls.key: [REDACTED] from unset)"
+      );
+    });
+
+    it("collects every failed rule", () => {
+      try {
+        resolveValues(s, { env: { POOL_MIN: "20", TLS_ENABLED: "1" } });
+        expect.fail("should throw");
+      } catch (e) {
+        expect((e as ConfigError).issues.map((i) => i.path)).toEqual(["pool.min", "tls.key"]);
+      }
+    });
+
+    it("points at the section when a rule names no keys", () => {
+      const section = schema({ a: field({ type: z.number() }) }, { refine: [{ check: () => false, message: "never valid" }] });
+      expect(() => resolveValues(schema({ section }), { env: {}, initialValues: { section: { a: 1 } } })).toThrow(
+        "Invalid config at 'section': never valid"
+      );
+    });
+
+    it("reports rules that throw as issues of their section", () => {
+      const tls = schema(
+        { cert: field({ type: z.string().optional() }) },
+        {
+          refine: [{ check: (t) => t.cert!.length > 0, message: "cert must not be empty" }],
+          superRefine: (t) => {
+            if (t.cert!.length > 4096) throw new Error("unreachable");
+          },
+        }
+      );
+      try {
+        resolveValues(schema({ tls }), { env: {} });
+        expect.fail("should throw");
+      } catch (e) {
+        expect(e).toBeInstanceOf(ConfigError);
+        expect((e as ConfigError).issues.map((i) => i.message)).toEqual([
+          expect.stringMatching(/^Invalid config at 'tls': refine\(\) threw: Cannot read properties of undefined/),
+          expect.stringMatching(/^Invalid config at 'tls': superRefine\(\) threw: Cannot read properties of undefined/),
+        ]);
+      }
+    });
+
+    it("skips rules while fields are invalid", () => {
+      expect(() => resolveValues(s, { env: { POOL_MIN: "x", TLS_ENABLED: "1" } })).toThrow(
+        "Cannot coerce env:POOL_MIN at 'pool.min': expected a number (value: \"x\")"
+      );
+    });
+  });
+
   describe("literal values", () => {
     it("preserves literal values from schema()", () => {
       const s = schema({ version: "1.0", port: field({ type: z.number(), default: 3000 }) });
@@ -233,6 +1513,80 @@ describe("resolveValues()", () => {
     });
   });
 
+  describe("aggregated errors", () => {
+    it("reports every failing path in a single ConfigError", () => {
+      const s = schema({
+        host: field({ type: z.string(), env: "HOST" }),
+        port: field({ type: z.number(), env: "PORT" }),
+        db: { name: field({ type: z.string() }) },
+      });
+      try {
+        resolveValues(s, { env: { PORT: "not-a-number" } });
+        expect.fail("should throw");
+      } catch (e) {
+        expect(e).toBeInstanceOf(ConfigError);
+        const err = e as ConfigError;
+        expect(err.issues.map((i) => i.path)).toEqual(["host", "port", "db.name"]);
+        expect(err.message).toMatch(/3 errors/);
+        expect(err.message).toContain("'host'");
+        expect(err.message).toContain("'port'");
+        expect(err.message).toContain("'db.name'");
+        expect(err.path).toBe("host");
+      }
+    });
+
+    it("records the sources tried for each failing path", () => {
+      const s = schema({
+        host: field({ type: z.string(), env: "HOST" }),
+        port: field({ type: z.number(), env: "PORT", default: "oops" }),
+      });
+      try {
+        resolveValues(s, { env: {} });
+        expect.fail("should throw");
+      } catch (e) {
+        const err = e as ConfigError;
+        expect(err.issues[0]).toMatchObject({ path: "host", source: null, tried: ["env:HOST"], zodIssues: [] });
+        expect(err.issues[1]).toMatchObject({ path: "port", source: "default", tried: ["env:PORT", "default"] });
+      }
+    });
+
+    it("includes all Zod issues scoped to the config path", () => {
+      const s = schema({ name: field({ type: z.string().min(5).regex(/^[a-z]+$/), default: "A1" }) });
+      try {
+        resolveValues(s, { env: {} });
+        expect.fail("should throw");
+      } catch (e) {
+        const err = e as ConfigError;
+        expect(err.issues).toHaveLength(1);
+        expect(err.issues[0].zodIssues).toHaveLength(2);
+        expect(err.issues[0].zodIssues.every((i) => i.path[0] === "name")).toBe(true);
+      }
+    });
+
+    it("keeps the single-error message unchanged", () => {
+      const s = schema({ host: field({ type: z.string() }) });
+      expect(() => resolveValues(s, { env: {} })).toThrow("Missing required config at 'host' (value: undefined)");
+    });
+
+    it("redacts sensitive values across all issues", () => {
+      const s = schema({
+        apiKey: field({ type: z.string().min(20), env: "API_KEY", sensitive: true }),
+        token: field({ type: z.number(), env: "TOKEN", sensitive: true }),
+      });
+      try {
+        resolveValues(s, { env: { API_KEY: "short-key", TOKEN: "tok-123" } });
+        expect.fail("should throw");
+      } catch (e) {
+        const err = e as ConfigError;
+        expect(err.sensitive).toBe(true);
+        expect(err.message).not.toContain("short-key");
+        expect(err.message).not.toContain("tok-123");
+        expect(JSON.stringify(err.issues)).not.toContain("short-key");
+        expect(JSON.stringify(err.issues)).not.toContain("tok-123");
+      }
+    });
+  });
+
   describe("secretsPath", () => {
     it("resolves relative secretFile paths against secretsPath", () => {
       const s = schema({ pass: field({ type: z.string(), secretFile: "secret" }) });
@@ -249,6 +1603,40 @@ describe("resolveValues()", () => {
       // /secrets/mysecret won't exist, should fall back to default
       expect(resolveValues(s, { env: {} })).toEqual({ pass: "fallback" });
     });
+
+    it("searches several directories in order", () => {
+      const local = mkdtempSync(join(tmpdir(), "zfig-local-secrets-"));
+      writeFileSync(join(local, "secret"), "local-secret");
+      writeFileSync(join(local, "api-key"), "local-key");
+      try {
+        const s = schema({
+          pass: field({ type: z.string(), secretFile: "secret" }),
+          apiKey: field({ type: z.string(), secretFile: "api-key" }),
+        });
+        const missing = join(tempDir, "missing");
+        const config = resolveValues(s, { secretsPath: [missing, tempDir, local], env: {} });
+
+        expect(config).toEqual({ pass: "file-secret", apiKey: "local-key" });
+        expect(getSources(config)?.apiKey).toBe(`secretFile:${join(local, "api-key")}`);
+        const decision = config.getDiagnostics()?.find((e) => e.type === "sourceDecision" && e.key === "apiKey");
+        expect(decision).toMatchObject({
+          tried: [
+            `secretFile:${join(missing, "api-key")}`,
+            `secretFile:${join(tempDir, "api-key")}`,
+            `secretFile:${join(local, "api-key")}`,
+          ],
+        });
+      } finally {
+        rmSync(local, { recursive: true });
+      }
+    });
+
+    it("lists every directory searched for a missing secret", () => {
+      const s = schema({ pass: field({ type: z.string(), secretFile: "nope", sensitive: true }) });
+      expect(() => resolveValues(s, { secretsPath: ["/run/secrets", "./.secrets"], env: {} })).toThrow(
+        "Missing required config at 'pass' (value: [REDACTED]); secret file 'nope' not found in /run/secrets, ./.secrets"
+      );
+    });
   });
 
   describe("toString() redaction", () => {
@@ -338,6 +1726,19 @@ describe("resolveValues()", () => {
       expect(getSources(config)?.port).toBe("file");
     });
 
+    it("tracks the highest-priority file layer defining a key", () => {
+      const s = schema({ host: field({ type: z.string() }), port: field({ type: z.number() }) });
+      const config = resolveValues(s, {
+        fileLayers: [
+          { path: "base.json", values: { host: "base", port: 3000 } },
+          { path: "local.json", values: { host: "local" } },
+        ],
+        env: {},
+      });
+      expect(config).toEqual({ host: "local", port: 3000 });
+      expect(getSources(config)).toEqual({ host: "file:local.json", port: "file:base.json" });
+    });
+
     it("tracks initial source", () => {
       const s = schema({ val: field({ type: z.string() }) });
       const config = resolveValues(s, { initialValues: { val: "initial" }, env: {} });
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { writeFileSync, mkdtempSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { tmpdir } from "node:os";
+import { z } from "zod";
+import { schema, field, watch, getSources, ConfigError } from "../src";
+import type { ConfigChange, ConfigWatcher } from "../src";
+
+function nextEvent<T>(subscribe: (listener: (value: T) => void) => () => void): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error("timed out waiting for watcher")), 3000);
+    const unsubscribe = subscribe((value) => {
+      clearTimeout(timeout);
+      unsubscribe();
+      resolve(value);
+    });
+  });
+}
+
+describe("watch()", () => {
+  let tempDir: string;
+  let configPath: string;
+  let watcher: Pick<ConfigWatcher<unknown>, "close"> | undefined;
+
+  const s = schema({
+    host: field({ type: z.string() }),
+    port: field({ type: z.number() }),
+    pass: field({ type: z.string(), secretFile: "dbpass", sensitive: true }),
+  });
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "zfig-watch-"));
+    configPath = join(tempDir, "config.json");
+    writeFileSync(configPath, '{"host":"localhost","port":3000}');
+    writeFileSync(join(tempDir, "dbpass"), "secret-1");
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = undefined;
+    rmSync(tempDir, { recursive: true });
+  });
+
+  it("resolves the initial config", async () => {
+    const w = await watch(s, { configPath, secretsPath: tempDir, env: {} });
+    watcher = w;
+    expect(w.current).toEqual({ host: "localhost", port: 3000, pass: "secret-1" });
+  });
+
+  it("re-resolves when the config file changes", async () => {
+    const w = await watch(s, { configPath, secretsPath: tempDir, env: {}, debounceMs: 10 });
+    watcher = w;
+    const changed = nextEvent<ConfigChange<typeof s>>((l) => w.onChange(l));
+
+    writeFileSync(configPath, '{"host":"db.internal","port":3000}');
+
+    const change = await changed;
+    expect(change.previous.host).toBe("localhost");
+    expect(change.current.host).toBe("db.internal");
+    expect(change.changedPaths).toEqual(["host"]);
+    expect(w.current).toBe(change.current);
+    expect(getSources(w.current)?.host).toBe(`file:${configPath}`);
+  });
+
+  it("re-resolves when a secret file changes", async () => {
+    const w = await watch(s, { configPath, secretsPath: tempDir, env: {}, debounceMs: 10 });
+    watcher = w;
+    const changed = nextEvent<ConfigChange<typeof s>>((l) => w.onChange(l));
+
+    writeFileSync(join(tempDir, "dbpass"), "secret-2");
+
+    const change = await changed;
+    expect(change.changedPaths).toEqual(["pass"]);
+    expect(w.current.pass).toBe("secret-2");
+  });
+
+  it("keeps the previous config and reports invalid edits", async () => {
+    const w = await watch(s, { configPath, secretsPath: tempDir, env: {}, debounceMs: 10 });
+    watcher = w;
+    const failed = nextEvent<ConfigError>((l) => w.onError(l));
+
+    writeFileSync(configPath, '{"host":"db.internal","port":"not-a-number"}');
+
+    const error = await failed;
+    expect(error).toBeInstanceOf(ConfigError);
+    expect(error.path).toBe("port");
+    expect(error.diagnostics?.some((d) => d.type === "sourceDecision" && d.key === "port")).toBe(true);
+    expect(w.current).toEqual({ host: "localhost", port: 3000, pass: "secret-1" });
+  });
+
+  it("reload() re-resolves on demand", async () => {
+    let port = "3000";
+    const env = { get PORT() { return port; } };
+    const envSchema = schema({ port: field({ type: z.coerce.number(), env: "PORT" }) });
+    const w = await watch(envSchema, { env });
+    watcher = w;
+    const changes: string[][] = [];
+    w.onChange(({ changedPaths }) => changes.push(changedPaths));
+
+    port = "4000";
+    await w.reload();
+
+    expect(w.current.port).toBe(4000);
+    expect(changes).toEqual([["port"]]);
+  });
+
+  it("reports a half-written config file with its diagnostics", async () => {
+    const w = await watch(s, { configPath, secretsPath: tempDir, env: {}, debounceMs: 10 });
+    watcher = w;
+    const failed = nextEvent<ConfigError>((l) => w.onError(l));
+
+    writeFileSync(configPath, '{"host": ');
+
+    const error = await failed;
+    expect(error.message).toMatch(/^Invalid JSON in /);
+    expect(error.diagnostics).toContainEqual(expect.objectContaining({ type: "configPath", picked: configPath }));
+    expect(error.diagnostics).toContainEqual(expect.objectContaining({ type: "loader", format: ".json", used: true }));
+    expect(w.current.host).toBe("localhost");
+  });
+
+  it("attaches diagnostics to errors that aren't ConfigErrors", async () => {
+    let broken = false;
+    const fragile = schema({
+      host: field({
+        type: z.string().transform((host) => {
+          if (broken) throw new Error("disk on fire");
+          return host;
+        }),
+      }),
+    });
+    const w = await watch(fragile, { configPath, env: {} });
+    watcher = w;
+    const errors: ConfigError[] = [];
+    w.onError((error) => errors.push(error));
+
+    broken = true;
+    await w.reload();
+
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toBe("Config reload failed: disk on fire");
+    expect(errors[0].diagnostics?.some((d) => d.type === "configPath" && d.picked === configPath)).toBe(true);
+  });
+
+  it("keeps notifying and reloading when a listener throws", async () => {
+    const w = await watch(s, { configPath, secretsPath: tempDir, env: {}, debounceMs: 10 });
+    watcher = w;
+    const unhandled = vi.fn();
+    process.on("unhandledRejection", unhandled);
+    try {
+      w.onChange(() => {
+        throw new Error("listener bug");
+      });
+      const changed = nextEvent<ConfigChange<typeof s>>((l) => w.onChange(l));
+
+      writeFileSync(configPath, '{"host":"db.internal","port":3000}');
+
+      expect((await changed).current.host).toBe("db.internal");
+      await new Promise((done) => setTimeout(done, 10));
+      expect(unhandled).not.toHaveBeenCalled();
+      expect(w.current.host).toBe("db.internal");
+    } finally {
+      process.off("unhandledRejection", unhandled);
+    }
+  });
+
+  it("does not notify when nothing changed", async () => {
+    const w = await watch(s, { configPath, secretsPath: tempDir, env: {} });
+    watcher = w;
+    let notified = false;
+    w.onChange(() => (notified = true));
+
+    await w.reload();
+
+    expect(notified).toBe(false);
+  });
+
+  it("stops notifying after close()", async () => {
+    const w = await watch(s, { configPath, secretsPath: tempDir, env: {}, debounceMs: 10 });
+    let notified = false;
+    w.onChange(() => (notified = true));
+    w.close();
+
+    writeFileSync(configPath, '{"host":"db.internal","port":3000}');
+    await new Promise((r) => setTimeout(r, 100));
+
+    expect(notified).toBe(false);
+    expect(w.current.host).toBe("localhost");
+  });
+});